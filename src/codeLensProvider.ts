@@ -1,5 +1,18 @@
 import * as vscode from 'vscode';
-import { parseMarkdownTables, TableInfo } from './tableParser';
+import { TableDialectName } from './tableDialect';
+import { getTableIdentity } from './tableIdentity';
+import { DEFAULT_TABLE_DIALECTS, parseMarkdownTables, TableInfo, TableParseOptions } from './tableParser';
+
+/**
+ * Reads the table syntaxes to detect from the configuration
+ */
+export function getTableParseOptions(): TableParseOptions {
+    const config = vscode.workspace.getConfiguration('visualTableCanvas');
+    return {
+        dialects: config.get<TableDialectName[]>('dialects', DEFAULT_TABLE_DIALECTS),
+        multiMarkdown: config.get<boolean>('multiMarkdown', false)
+    };
+}
 
 /**
  * CodeLens provider for Markdown tables
@@ -25,10 +38,10 @@ export class TableCodeLensProvider implements vscode.CodeLensProvider {
         }
 
         const text = document.getText();
-        const tables = parseMarkdownTables(text);
+        const tables = parseMarkdownTables(text, getTableParseOptions());
         const codeLenses: vscode.CodeLens[] = [];
 
-        tables.forEach((table: TableInfo, index: number) => {
+        tables.forEach((table: TableInfo) => {
             const range = new vscode.Range(
                 new vscode.Position(table.startLine, 0),
                 new vscode.Position(table.startLine, 0)
@@ -38,10 +51,17 @@ export class TableCodeLensProvider implements vscode.CodeLensProvider {
                 title: '$(edit) Edit Table',
                 tooltip: 'Edit this table with visual editor',
                 command: 'visualTableCanvas.editTable',
-                arguments: [document.uri, table, index]
+                arguments: [document.uri, getTableIdentity(table)]
+            });
+
+            const exportCodeLens = new vscode.CodeLens(range, {
+                title: '$(export) Export',
+                tooltip: 'Export this table to a file in another format (CSV, HTML, LaTeX, ...)',
+                command: 'visualTableCanvas.exportTable',
+                arguments: [document.uri, getTableIdentity(table)]
             });
 
-            codeLenses.push(codeLens);
+            codeLenses.push(codeLens, exportCodeLens);
         });
 
         return codeLenses;
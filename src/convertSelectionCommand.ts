@@ -0,0 +1,33 @@
+import * as vscode from 'vscode';
+import { detectDelimiter, parseDelimitedText } from './delimitedText';
+import { LineEnding, tableToMarkdown, TableOutputStyle } from './tableParser';
+
+/**
+ * Replaces the CSV/TSV text selected in the active editor with a Markdown table
+ */
+export async function convertSelectionToTable(): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || editor.selection.isEmpty) {
+        vscode.window.showInformationMessage('Convert to Table: Select the CSV or TSV text to convert');
+        return;
+    }
+
+    const document = editor.document;
+    const selection = editor.selection;
+    const text = document.getText(selection);
+    const delimiter = detectDelimiter(text);
+    if (!delimiter) {
+        vscode.window.showWarningMessage('Convert to Table: No comma, tab, semicolon or pipe separated columns were found in the selection');
+        return;
+    }
+
+    const eol: LineEnding = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+    const outputStyle = vscode.workspace.getConfiguration('visualTableCanvas').get<TableOutputStyle>('outputStyle', 'preserve');
+    // Cells are read like pasted spreadsheet cells; whitespace around them means nothing in Markdown
+    const data = parseDelimitedText(text, delimiter).map(row => row.map(cell => cell.trim()));
+    const markdown = tableToMarkdown(data, { eol, compact: outputStyle === 'compact' });
+
+    // Keep the line break that ends a selection of whole lines
+    const trailingEol = /\r?\n$/.test(text) ? eol : '';
+    await editor.edit(editBuilder => editBuilder.replace(selection, markdown + trailingEol));
+}
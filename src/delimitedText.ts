@@ -0,0 +1,158 @@
+/**
+ * Field delimiters of delimited text (CSV, TSV and the like)
+ */
+export type Delimiter = ',' | '\t' | ';' | '|';
+
+/**
+ * Delimiters tried by {@link detectDelimiter}, in order of preference.
+ * Semicolons win over commas because semicolon-separated files use commas as decimal separators.
+ */
+export const DELIMITERS: readonly Delimiter[] = ['\t', '|', ';', ','];
+
+/**
+ * Splits delimited text into rows of cells, following RFC 4180:
+ * a field starting with `"` is quoted, a quoted `""` is a literal quote, and quoted fields may contain
+ * delimiters and line breaks. Line breaks inside cells are turned into `<br>`, and fields are kept as
+ * written, including surrounding whitespace and any text after a closing quote.
+ * Blank lines are empty rows; only the line break that ends the text does not start a row.
+ * With the `|` delimiter, the outer pipes of rows written as `| a | b |` are ignored.
+ * This is the parser for pasted spreadsheet cells as well, so rows are not padded, and a copied
+ * range whose last cells are empty keeps its last rows.
+ */
+export function splitDelimitedText(text: string, delimiter: Delimiter): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+
+    const endCell = () => {
+        row.push(cell.replace(/\r?\n/g, '<br>'));
+        cell = '';
+    };
+    const endRow = () => {
+        endCell();
+        rows.push(row);
+        row = [];
+    };
+
+    for (let index = 0; index < text.length; index++) {
+        const char = text[index];
+        if (inQuotes) {
+            if (char !== '"') {
+                cell += char;
+            } else if (text[index + 1] === '"') {
+                // Escaped quote
+                cell += '"';
+                index++;
+            } else {
+                inQuotes = false;
+            }
+        } else if (char === '"' && cell === '') {
+            // Start of a quoted field
+            inQuotes = true;
+        } else if (char === delimiter) {
+            endCell();
+        } else if (char === '\n' || (char === '\r' && text[index + 1] === '\n')) {
+            if (char === '\r') {
+                index++;
+            }
+            endRow();
+        } else {
+            cell += char;
+        }
+    }
+    if (cell !== '' || row.length > 0) {
+        endRow();
+    }
+
+    // Rows written with outer pipes start (and usually end) with an empty field
+    const pipedRows = rows.filter(cells => cells.length > 1);
+    if (delimiter === '|' && pipedRows.length > 0 && pipedRows.every(cells => cells[0].trim() === '')) {
+        const trailing = pipedRows.every(cells => cells.length > 2 && cells[cells.length - 1].trim() === '');
+        return rows.map(cells => cells.length > 1 ? cells.slice(1, trailing ? -1 : undefined) : cells);
+    }
+    return rows;
+}
+
+/**
+ * Splits delimited text into rows of cells with {@link splitDelimitedText}, drops the blank lines
+ * at the end of the text, and pads the rows to the same number of cells
+ */
+export function parseDelimitedText(text: string, delimiter: Delimiter): string[][] {
+    const rows = splitDelimitedText(text, delimiter);
+    while (rows.length > 0 && isBlankRow(rows[rows.length - 1])) {
+        rows.pop();
+    }
+    const columnCount = Math.max(0, ...rows.map(cells => cells.length));
+    return rows.map(cells => [...cells, ...Array<string>(columnCount - cells.length).fill('')]);
+}
+
+/**
+ * Guesses the delimiter of delimited text: the one that splits every row into the same number
+ * (at least two) of fields. Falls back to the one that does so for the most rows, and returns
+ * undefined if no delimiter splits any row. Blank lines are not counted.
+ */
+export function detectDelimiter(text: string): Delimiter | undefined {
+    let best: { delimiter: Delimiter; consistency: number } | undefined;
+    for (const delimiter of DELIMITERS) {
+        const counts = splitDelimitedText(text, delimiter)
+            .filter(cells => !isBlankRow(cells))
+            .map(cells => cells.length);
+        if (counts.length === 0 || Math.max(...counts) < 2) {
+            continue;
+        }
+        const consistency = counts.filter(count => count === counts[0]).length / counts.length;
+        if (!best || consistency > best.consistency) {
+            best = { delimiter, consistency };
+        }
+    }
+    return best?.delimiter;
+}
+
+/**
+ * Checks if a row comes from a blank line
+ */
+function isBlankRow(cells: string[]): boolean {
+    return cells.length === 1 && cells[0].trim() === '';
+}
+
+/**
+ * Text encodings offered when importing a delimited file
+ */
+export const TEXT_ENCODINGS: readonly { label: string; encoding: string }[] = [
+    { label: 'UTF-8', encoding: 'utf-8' },
+    { label: 'Shift_JIS', encoding: 'shift_jis' },
+    { label: 'EUC-JP', encoding: 'euc-jp' },
+    { label: 'UTF-16 LE', encoding: 'utf-16le' },
+    { label: 'UTF-16 BE', encoding: 'utf-16be' },
+    { label: 'Windows-1252', encoding: 'windows-1252' }
+];
+
+/**
+ * Guesses the encoding of a file: from its byte order mark, else UTF-8 if it is valid UTF-8,
+ * else Shift_JIS (the encoding of Japanese Excel exports)
+ */
+export function detectEncoding(bytes: Uint8Array): string {
+    if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+        return 'utf-8';
+    }
+    if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+        return 'utf-16le';
+    }
+    if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+        return 'utf-16be';
+    }
+    try {
+        new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+        return 'utf-8';
+    } catch {
+        return 'shift_jis';
+    }
+}
+
+/**
+ * Decodes a file, dropping its byte order mark
+ */
+export function decodeText(bytes: Uint8Array, encoding: string): string {
+    return new TextDecoder(encoding).decode(bytes);
+}
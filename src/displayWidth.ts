@@ -0,0 +1,210 @@
+import type { ColumnAlignment } from './tableParser';
+
+/**
+ * East Asian Wide (W) and Fullwidth (F) code point ranges, from Unicode's EastAsianWidth.txt.
+ * Emoji with default emoji presentation are handled separately via Unicode properties.
+ */
+const WIDE_RANGES: Array<[number, number]> = [
+    [0x1100, 0x115F],   // Hangul Jamo initial consonants
+    [0x2329, 0x232A],   // Angle brackets
+    [0x2E80, 0x303E],   // CJK Radicals, Kangxi, CJK Symbols and Punctuation (incl. ideographic space)
+    [0x3041, 0x33FF],   // Hiragana, Katakana, Bopomofo, Hangul Compatibility Jamo, Kanbun, CJK Compatibility
+    [0x3400, 0x4DBF],   // CJK Unified Ideographs Extension A
+    [0x4E00, 0x9FFF],   // CJK Unified Ideographs
+    [0xA000, 0xA4CF],   // Yi Syllables and Radicals
+    [0xA960, 0xA97F],   // Hangul Jamo Extended-A
+    [0xAC00, 0xD7A3],   // Hangul Syllables
+    [0xF900, 0xFAFF],   // CJK Compatibility Ideographs
+    [0xFE10, 0xFE19],   // Vertical Forms
+    [0xFE30, 0xFE6F],   // CJK Compatibility Forms, Small Form Variants
+    [0xFF00, 0xFF60],   // Fullwidth ASCII variants
+    [0xFFE0, 0xFFE6],   // Fullwidth symbol variants
+    [0x16FE0, 0x16FE4], // Ideographic Symbols and Punctuation
+    [0x17000, 0x18CFF], // Tangut, Khitan
+    [0x1B000, 0x1B2FF], // Kana Supplement/Extended, Nushu
+    [0x1F200, 0x1F2FF], // Enclosed Ideographic Supplement
+    [0x20000, 0x2FFFD], // CJK Unified Ideographs Extension B-F, Compatibility Supplement
+    [0x30000, 0x3FFFD]  // CJK Unified Ideographs Extension G and later
+];
+
+/** Characters that take no column: combining marks, format characters (ZWJ, etc.), controls */
+const ZERO_WIDTH = /^[\p{Mn}\p{Me}\p{Cf}\p{Cc}]$/u;
+/** Emoji that are displayed as emoji (two columns) by default */
+const EMOJI_PRESENTATION = /^\p{Emoji_Presentation}$/u;
+/** Pictographs that become two columns when followed by VS16 (U+FE0F) */
+const EXTENDED_PICTOGRAPHIC = /^\p{Extended_Pictographic}$/u;
+/** Emoji skin tone modifiers, which merge into the preceding emoji */
+const EMOJI_MODIFIER = /^\p{Emoji_Modifier}$/u;
+
+const ZERO_WIDTH_JOINER = 0x200D;
+const VARIATION_SELECTOR_16 = 0xFE0F;
+const HANGUL_JUNGSEONG_START = 0x1160;
+const HANGUL_JONGSEONG_END = 0x11FF;
+
+/**
+ * Checks if a code point is East Asian Wide or Fullwidth
+ */
+function isWideCodePoint(codePoint: number): boolean {
+    let low = 0;
+    let high = WIDE_RANGES.length - 1;
+    while (low <= high) {
+        const mid = (low + high) >> 1;
+        const [start, end] = WIDE_RANGES[mid];
+        if (codePoint < start) {
+            high = mid - 1;
+        } else if (codePoint > end) {
+            low = mid + 1;
+        } else {
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * Checks if a code point is a regional indicator (two of them form a flag)
+ */
+function isRegionalIndicator(codePoint: number): boolean {
+    return codePoint >= 0x1F1E6 && codePoint <= 0x1F1FF;
+}
+
+/**
+ * Returns the number of columns text occupies in a monospace editor.
+ * East Asian Wide/Fullwidth characters and emoji count as two columns;
+ * combining marks, zero-width joiners and variation selectors count as zero.
+ */
+export function getDisplayWidth(text: string): number {
+    let width = 0;
+    // Width and kind of the previous visible character, for sequences that modify it
+    let previousWasPictographic = false;
+    let previousWidth = 0;
+    let afterJoiner = false;
+    let pendingRegionalIndicator = false;
+
+    for (const char of text) {
+        const codePoint = char.codePointAt(0)!;
+
+        // Printable ASCII fast path
+        if (codePoint >= 0x20 && codePoint < 0x7F) {
+            width += 1;
+            previousWasPictographic = false;
+            previousWidth = 1;
+            afterJoiner = false;
+            pendingRegionalIndicator = false;
+            continue;
+        }
+
+        if (codePoint === ZERO_WIDTH_JOINER) {
+            afterJoiner = previousWasPictographic;
+            continue;
+        }
+
+        if (codePoint === VARIATION_SELECTOR_16) {
+            // Text-style pictograph switched to emoji presentation
+            if (previousWasPictographic && previousWidth === 1) {
+                width += 1;
+                previousWidth = 2;
+            }
+            continue;
+        }
+
+        if (ZERO_WIDTH.test(char) || (codePoint >= HANGUL_JUNGSEONG_START && codePoint <= HANGUL_JONGSEONG_END)) {
+            continue;
+        }
+
+        // Emoji joined by ZWJ and skin tone modifiers render as part of the previous emoji
+        if ((afterJoiner && EXTENDED_PICTOGRAPHIC.test(char)) || (previousWasPictographic && EMOJI_MODIFIER.test(char))) {
+            afterJoiner = false;
+            continue;
+        }
+        afterJoiner = false;
+
+        // A pair of regional indicators is one flag
+        if (isRegionalIndicator(codePoint)) {
+            if (pendingRegionalIndicator) {
+                pendingRegionalIndicator = false;
+                continue;
+            }
+            pendingRegionalIndicator = true;
+            width += 2;
+            previousWasPictographic = false;
+            previousWidth = 2;
+            continue;
+        }
+        pendingRegionalIndicator = false;
+
+        const charWidth = isWideCodePoint(codePoint) || EMOJI_PRESENTATION.test(char) ? 2 : 1;
+        width += charWidth;
+        previousWasPictographic = EXTENDED_PICTOGRAPHIC.test(char);
+        previousWidth = charWidth;
+    }
+
+    return width;
+}
+
+/**
+ * Pads text with trailing spaces to the given display width
+ */
+export function padEndToWidth(text: string, width: number): string {
+    return text + ' '.repeat(Math.max(0, width - getDisplayWidth(text)));
+}
+
+/**
+ * Pads text with leading spaces to the given display width
+ */
+export function padStartToWidth(text: string, width: number): string {
+    return ' '.repeat(Math.max(0, width - getDisplayWidth(text))) + text;
+}
+
+/**
+ * Centers text within the given display width (extra space goes to the right)
+ */
+export function padCenterToWidth(text: string, width: number): string {
+    const padding = Math.max(0, width - getDisplayWidth(text));
+    const left = Math.floor(padding / 2);
+    return ' '.repeat(left) + text + ' '.repeat(padding - left);
+}
+
+/**
+ * Pads text to a display width according to a column alignment
+ */
+export function padToAlignment(text: string, width: number, alignment: ColumnAlignment): string {
+    switch (alignment) {
+        case 'right':
+            return padStartToWidth(text, width);
+        case 'center':
+            return padCenterToWidth(text, width);
+        default:
+            return padEndToWidth(text, width);
+    }
+}
+
+/**
+ * Splits text at the given display columns (in ascending order), e.g. to cut a fixed-width row into cells.
+ * Returns one more piece than there are columns; pieces past the end of the text are empty.
+ * A wide character that straddles a column stays in the piece it starts in,
+ * and zero-width characters stay with the character they follow.
+ */
+export function splitAtDisplayColumns(text: string, columns: number[]): string[] {
+    const pieces: string[] = [];
+    let pieceStart = 0;
+    let nextColumn = 0;
+    let index = 0;
+
+    for (const char of text) {
+        const column = getDisplayWidth(text.slice(0, index));
+        const isZeroWidth = getDisplayWidth(text.slice(0, index + char.length)) === column;
+        while (!isZeroWidth && nextColumn < columns.length && column >= columns[nextColumn]) {
+            pieces.push(text.slice(pieceStart, index));
+            pieceStart = index;
+            nextColumn++;
+        }
+        index += char.length;
+    }
+
+    pieces.push(text.slice(pieceStart));
+    while (pieces.length <= columns.length) {
+        pieces.push('');
+    }
+    return pieces;
+}
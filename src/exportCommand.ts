@@ -0,0 +1,87 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import type { InlineMarkdownMode } from './inlineMarkdown';
+import { EXPORT_FORMATS, ExportFormat, exportTable } from './tableExport';
+import type { CellMerge } from './tableModel';
+import type { ColumnAlignment, TableInfo } from './tableParser';
+
+/**
+ * Contents of a table that differ from the document, e.g. unsaved edits in the Table Editor
+ */
+export interface ExportedContents {
+    data: string[][];
+    alignments: ColumnAlignment[];
+    merges: CellMerge[];
+    caption?: string;
+}
+
+/**
+ * Suggests a file name for an exported table: the document name followed by the table's id or line
+ */
+function getDefaultExportUri(documentUri: vscode.Uri, table: TableInfo, format: ExportFormat): vscode.Uri | undefined {
+    if (documentUri.scheme !== 'file') {
+        return undefined;
+    }
+    const documentName = path.basename(documentUri.fsPath, path.extname(documentUri.fsPath));
+    const tableName = table.anchor ?? `table-line-${table.startLine + 1}`;
+    const fileName = `${documentName}-${tableName}.${EXPORT_FORMATS[format].extension}`;
+    return vscode.Uri.file(path.join(path.dirname(documentUri.fsPath), fileName));
+}
+
+/**
+ * Asks for the export format
+ */
+async function pickExportFormat(): Promise<ExportFormat | undefined> {
+    const items = (Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => ({
+        label: EXPORT_FORMATS[format].label,
+        description: `.${EXPORT_FORMATS[format].extension}`,
+        format
+    }));
+    const picked = await vscode.window.showQuickPick(items, { placeHolder: 'Export the table as' });
+    return picked?.format;
+}
+
+/**
+ * Exports a table to a file chosen in a save dialog
+ * @param documentUri Document the table is in, where the file is suggested to go
+ * @param table The table as it is in the document
+ * @param contents The contents to export instead of the document's, if they were edited
+ */
+export async function exportTableToFile(documentUri: vscode.Uri, table: TableInfo, contents?: ExportedContents): Promise<void> {
+    const format = await pickExportFormat();
+    if (!format) {
+        return;
+    }
+
+    const { label, extension } = EXPORT_FORMATS[format];
+    const target = await vscode.window.showSaveDialog({
+        defaultUri: getDefaultExportUri(documentUri, table, format),
+        filters: { [label]: [extension] },
+        saveLabel: 'Export'
+    });
+    if (!target) {
+        return;
+    }
+
+    const config = vscode.workspace.getConfiguration('visualTableCanvas');
+    const text = exportTable(contents?.data ?? table.data, format, {
+        alignments: contents?.alignments ?? table.alignments,
+        merges: contents?.merges ?? table.merges,
+        headerRowCount: table.headerRowCount,
+        inlineMarkdown: config.get<InlineMarkdownMode>('exportInlineMarkdown', 'keep'),
+        caption: contents ? contents.caption : table.caption?.text,
+        title: path.basename(documentUri.path)
+    });
+
+    try {
+        await vscode.workspace.fs.writeFile(target, new TextEncoder().encode(text));
+    } catch (error) {
+        vscode.window.showErrorMessage(`Export Table: Failed to write ${path.basename(target.path)}: ${error instanceof Error ? error.message : error}`);
+        return;
+    }
+
+    const result = await vscode.window.showInformationMessage(`Exported the table to ${path.basename(target.path)}`, 'Open');
+    if (result === 'Open') {
+        await vscode.window.showTextDocument(target);
+    }
+}
@@ -1,7 +1,19 @@
 import * as vscode from 'vscode';
 import { TableCodeLensProvider } from './codeLensProvider';
-import { TableInfo } from './tableParser';
-import { TableEditorPanel } from './tableEditorPanel';
+import { convertSelectionToTable } from './convertSelectionCommand';
+import { exportTableToFile } from './exportCommand';
+import { importCsv } from './importCsvCommand';
+import { insertTable } from './insertTableCommand';
+import { registerRecoveryDiffProvider } from './recoveryDiff';
+import { RecoveryStore } from './recoveryStore';
+import { getCommandTable, registerCursorInTableContext } from './tableAtCursor';
+import { TableIdentity } from './tableIdentity';
+import { TableEditorPanel, TableEditorSerializer } from './tableEditorPanel';
+
+/**
+ * How long unsaved table edits are kept for crash recovery (ms)
+ */
+const RECOVERY_MAX_AGE = 7 * 24 * 60 * 60 * 1000;
 
 export function activate(context: vscode.ExtensionContext) {
     console.log('Visual Table Canvas for Markdown is now active!');
@@ -14,24 +26,67 @@ export function activate(context: vscode.ExtensionContext) {
     );
 
     // Register the edit table command
+    // The CodeLens passes the table; from the Command Palette, keybinding or context menu the table under the cursor is edited
     const editTableCommand = vscode.commands.registerCommand(
         'visualTableCanvas.editTable',
-        (uri?: vscode.Uri, table?: TableInfo, tableIndex?: number) => {
-            if (uri && table) {
+        async (uri?: vscode.Uri, identity?: TableIdentity) => {
+            const found = await getCommandTable('Edit Table', uri, identity);
+            if (found) {
                 // Open Webview Panel
-                TableEditorPanel.createOrShow(
-                    context.extensionUri,
-                    uri,
-                    table,
-                    tableIndex ?? 0
-                );
-            } else {
-                vscode.window.showInformationMessage('Edit Table: No table selected');
+                TableEditorPanel.createOrShow(context.extensionUri, found.uri, found.table);
+            }
+        }
+    );
+
+    // Register the export table command
+    // Also run from the Table Editor toolbar, which exports the grid including unsaved edits
+    const exportTableCommand = vscode.commands.registerCommand(
+        'visualTableCanvas.exportTable',
+        async (uri?: vscode.Uri, identity?: TableIdentity) => {
+            const found = await getCommandTable('Export Table', uri, identity);
+            if (found) {
+                await exportTableToFile(found.uri, found.table);
             }
         }
     );
 
-    context.subscriptions.push(codeLensDisposable, editTableCommand);
+    // Register the insert table command
+    const insertTableCommand = vscode.commands.registerCommand('visualTableCanvas.insertTable', () =>
+        insertTable(context.extensionUri)
+    );
+
+    // Register the import CSV command
+    const importCsvCommand = vscode.commands.registerCommand('visualTableCanvas.importCsv', () =>
+        importCsv(context.extensionUri)
+    );
+
+    // Register the convert selection command
+    const convertSelectionCommand = vscode.commands.registerCommand(
+        'visualTableCanvas.convertSelectionToTable',
+        convertSelectionToTable
+    );
+
+    // Unsaved table edits are checkpointed in the workspace storage, and kept for a week
+    TableEditorPanel.recoveryStore = new RecoveryStore(context.workspaceState);
+    TableEditorPanel.recoveryStore.prune(RECOVERY_MAX_AGE);
+
+    // Restore open Table Editors after a window reload
+    const serializerDisposable = vscode.window.registerWebviewPanelSerializer(
+        TableEditorPanel.viewType,
+        new TableEditorSerializer(context.extensionUri)
+    );
+
+    context.subscriptions.push(
+        codeLensDisposable,
+        editTableCommand,
+        exportTableCommand,
+        insertTableCommand,
+        importCsvCommand,
+        convertSelectionCommand,
+        serializerDisposable,
+        registerRecoveryDiffProvider(),
+        registerCursorInTableContext()
+    );
 }
 
 export function deactivate() {
@@ -0,0 +1,200 @@
+import { getDisplayWidth, padEndToWidth, splitAtDisplayColumns } from './displayWidth';
+import { CELL_LINE_BREAK, DialectSerializeOptions, DialectTable, splitCellLines, TableDialect } from './tableDialect';
+import type { ColumnAlignment } from './tableParser';
+
+/**
+ * Border line of a grid table (`+---+---+`, `+===+===+` after the header, with optional alignment colons)
+ */
+const BORDER_LINE = /^\+(?:[-=:]+\+)+$/;
+
+/** Minimum width of a column's content area */
+const MIN_COLUMN_WIDTH = 3;
+
+/**
+ * Returns the positions of the `+` characters of a border line
+ */
+function getBoundaries(border: string): number[] {
+    const boundaries: number[] = [];
+    for (let index = 0; index < border.length; index++) {
+        if (border[index] === '+') {
+            boundaries.push(index);
+        }
+    }
+    return boundaries;
+}
+
+/**
+ * Reads column alignments from the colons of a border line
+ */
+function parseBorderAlignments(border: string, boundaries: number[]): ColumnAlignment[] {
+    const alignments: ColumnAlignment[] = [];
+    for (let col = 0; col + 1 < boundaries.length; col++) {
+        const segment = border.slice(boundaries[col] + 1, boundaries[col + 1]);
+        const left = segment.startsWith(':');
+        const right = segment.endsWith(':');
+        alignments.push(left && right ? 'center' : left ? 'left' : right ? 'right' : 'none');
+    }
+    return alignments;
+}
+
+/**
+ * Splits a content line at the column boundaries.
+ * Returns null unless there is a `|` at every boundary (cells spanning columns are not supported).
+ */
+function splitContentLine(line: string, boundaries: number[]): string[] | null {
+    const pieces = splitAtDisplayColumns(line, boundaries.flatMap(boundary => [boundary, boundary + 1]));
+    if (pieces[0] !== '' || pieces[pieces.length - 1] !== '') {
+        return null;
+    }
+    const cells: string[] = [];
+    for (let col = 0; col < boundaries.length; col++) {
+        if (pieces[col * 2 + 1] !== '|') {
+            return null;
+        }
+        if (col + 1 < boundaries.length) {
+            cells.push(pieces[col * 2 + 2]);
+        }
+    }
+    return cells;
+}
+
+/**
+ * Joins the lines of a cell into one value: surrounding blank lines are dropped,
+ * the common indentation is removed and the lines are joined with `<br>`
+ */
+function joinCellLines(lines: string[]): string {
+    const trimmed = lines.map(line => line.trimEnd());
+    while (trimmed.length > 0 && trimmed[0] === '') {
+        trimmed.shift();
+    }
+    while (trimmed.length > 0 && trimmed[trimmed.length - 1] === '') {
+        trimmed.pop();
+    }
+    const indent = Math.min(...trimmed.filter(line => line !== '').map(line => line.length - line.trimStart().length));
+    return trimmed.map(line => line.slice(indent)).join(CELL_LINE_BREAK);
+}
+
+/**
+ * Reads the content widths of the columns of an existing grid table, if it has the given column count
+ */
+function getOriginalWidths(rawText: string | undefined, columnCount: number): number[] {
+    const border = rawText?.split(/\r?\n/)[0].trim() ?? '';
+    if (!BORDER_LINE.test(border)) {
+        return [];
+    }
+    const boundaries = getBoundaries(border);
+    if (boundaries.length - 1 !== columnCount) {
+        return [];
+    }
+    return boundaries.slice(1).map((boundary, col) => boundary - boundaries[col] - 3);
+}
+
+/**
+ * Pandoc grid tables:
+ *
+ * ```
+ * +-------+----------+
+ * | Name  | Notes    |
+ * +:======+=========:+
+ * | Alice | line one |
+ * |       | line two |
+ * +-------+----------+
+ * ```
+ *
+ * Multi-line cells are loaded as one value with `<br>` between the lines.
+ * Tables with cells spanning rows or columns are not detected.
+ */
+export const gridTableDialect: TableDialect = {
+    name: 'grid',
+
+    parse(lines: string[], start: number, end: number): DialectTable | null {
+        const indent = /^[ \t]*/.exec(lines[start])![0];
+        const top = lines[start].slice(indent.length).trimEnd();
+        if (!BORDER_LINE.test(top) || top.includes('=')) {
+            return null;
+        }
+
+        const boundaries = getBoundaries(top);
+        const data: string[][] = [];
+        let alignmentBorder = top;
+        let headerRowCount = 0;
+        // Lines of the row being read, per column (null right after a border)
+        let rowLines: string[][] | null = null;
+        let lastBorder = start;
+
+        for (let lineIndex = start + 1; lineIndex < end && lines[lineIndex].startsWith(indent); lineIndex++) {
+            const line = lines[lineIndex].slice(indent.length).trimEnd();
+
+            if (BORDER_LINE.test(line)) {
+                if (rowLines === null || getBoundaries(line).join() !== boundaries.join()) {
+                    return null;
+                }
+                data.push(rowLines.map(joinCellLines));
+                rowLines = null;
+                lastBorder = lineIndex;
+                if (line.includes('=')) {
+                    // Only a single header separator is supported
+                    if (headerRowCount > 0) {
+                        return null;
+                    }
+                    headerRowCount = data.length;
+                    alignmentBorder = line;
+                }
+                continue;
+            }
+
+            const cells = splitContentLine(line, boundaries);
+            if (cells === null) {
+                break;
+            }
+            rowLines = rowLines ?? cells.map(() => []);
+            cells.forEach((cell, col) => rowLines![col].push(cell));
+        }
+
+        // A table must end with a border
+        if (rowLines !== null || data.length === 0) {
+            return null;
+        }
+
+        return {
+            lineCount: lastBorder - start + 1,
+            data,
+            alignments: parseBorderAlignments(alignmentBorder, boundaries),
+            headerRowCount
+        };
+    },
+
+    serialize(data: string[][], options: DialectSerializeOptions): string {
+        const columnCount = Math.max(1, ...data.map(row => row.length));
+        const cellLines = data.map(row =>
+            Array.from({ length: columnCount }, (_, col) => splitCellLines(row[col] ?? ''))
+        );
+
+        // Keep the original column widths, which pandoc uses as relative widths, unless content outgrows them
+        const originalWidths = getOriginalWidths(options.originalRawText, columnCount);
+        const widths = Array.from({ length: columnCount }, (_, col) => Math.max(
+            MIN_COLUMN_WIDTH,
+            originalWidths[col] ?? 0,
+            ...cellLines.map(row => Math.max(...row[col].map(line => getDisplayWidth(line))))
+        ));
+
+        const formatBorder = (fill: string, withAlignments: boolean) => '+' + widths.map((width, col) => {
+            const alignment = withAlignments ? options.alignments[col] ?? 'none' : 'none';
+            const left = alignment === 'left' || alignment === 'center' ? ':' : fill;
+            const right = alignment === 'right' || alignment === 'center' ? ':' : fill;
+            return left + fill.repeat(width) + right;
+        }).join('+') + '+';
+
+        const hasHeader = options.headerRowCount > 0;
+        const lines: string[] = [formatBorder('-', !hasHeader)];
+        cellLines.forEach((row, rowIndex) => {
+            const lineCount = Math.max(...row.map(cell => cell.length));
+            for (let lineIndex = 0; lineIndex < lineCount; lineIndex++) {
+                lines.push('| ' + row.map((cell, col) => padEndToWidth(cell[lineIndex] ?? '', widths[col])).join(' | ') + ' |');
+            }
+            lines.push(hasHeader && rowIndex === options.headerRowCount - 1 ? formatBorder('=', true) : formatBorder('-', false));
+        });
+
+        return lines.join(options.eol);
+    }
+};
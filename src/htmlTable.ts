@@ -0,0 +1,419 @@
+import { matchSequences } from './sequenceMatch';
+import { DialectSerializeOptions, DialectTable, TableDialect } from './tableDialect';
+import type { CellMerge } from './tableModel';
+import type { ColumnAlignment } from './tableParser';
+
+/**
+ * HTML comments and start/end tags
+ */
+const HTML_TAG = /<!--[\s\S]*?-->|<(\/?)([a-zA-Z][a-zA-Z0-9]*)\b[^>]*>/g;
+
+/** Indentation used when the original table has none */
+const DEFAULT_INDENT = '  ';
+
+/**
+ * A `<td>`/`<th>` element as written in the source
+ */
+interface HtmlCell {
+    header: boolean;
+    /** Element name as written (`td`, `TH`, ...) */
+    tagName: string;
+    /** Attributes of the start tag as written, with their leading whitespace */
+    attributes: string;
+    /** Content with its line breaks collapsed, as shown in the grid */
+    content: string;
+    /** Content as written, kept when the cell is saved unchanged */
+    rawContent: string;
+    rowSpan: number;
+    colSpan: number;
+    alignment: ColumnAlignment;
+}
+
+/**
+ * A `<thead>`, `<tbody>` or `<tfoot>` element as written in the source
+ */
+interface HtmlSection {
+    name: string;
+    startTag: string;
+}
+
+/**
+ * A `<tr>` element as written in the source
+ */
+interface HtmlRow {
+    /** The section containing the row, null for rows directly in the table */
+    section: HtmlSection | null;
+    /** The `<tr ...>` start tag, null if it was omitted */
+    startTag: string | null;
+    cells: HtmlCell[];
+}
+
+/**
+ * Result of reading the markup of a `<table>` element
+ */
+interface HtmlTableMarkup {
+    /** The `<table ...>` start tag, with its attributes */
+    startTag: string;
+    /** The `<caption>` element, if any */
+    caption?: string;
+    rows: HtmlRow[];
+    /** Index just past `</table>` */
+    end: number;
+}
+
+function getSpanAttribute(tag: string, name: string): number {
+    const match = new RegExp(`\\b${name}\\s*=\\s*["']?(\\d+)`, 'i').exec(tag);
+    return match ? Math.max(1, parseInt(match[1], 10)) : 1;
+}
+
+function getAlignmentAttribute(tag: string): ColumnAlignment {
+    const match = /\balign\s*=\s*["']?(left|center|right)\b/i.exec(tag) ??
+        /\bstyle\s*=\s*["'][^"']*text-align\s*:\s*(left|center|right)\b/i.exec(tag);
+    return match ? match[1].toLowerCase() as ColumnAlignment : 'none';
+}
+
+/**
+ * Sets, replaces or (with an undefined value) removes an attribute in the attributes of a start tag
+ */
+function setAttribute(attributes: string, name: string, value: string | undefined): string {
+    const pattern = new RegExp(`\\s+${name}(?:\\s*=\\s*(?:"[^"]*"|'[^']*'|[^\\s"'>]+))?(?=[\\s/]|$)`, 'i');
+    const replacement = value === undefined ? '' : ` ${name}="${value}"`;
+    return pattern.test(attributes) ? attributes.replace(pattern, replacement) : attributes + replacement;
+}
+
+/**
+ * Sets the alignment in the attributes of a cell, in its `text-align` style if it has one
+ */
+function setAlignment(attributes: string, alignment: ColumnAlignment): string {
+    const value = alignment === 'none' ? undefined : alignment;
+    const style = /\sstyle\s*=\s*(["'])(.*?)\1/i.exec(attributes);
+    if (!style || !/text-align\s*:/i.test(style[2])) {
+        return setAttribute(attributes, 'align', value);
+    }
+    const declarations = value
+        ? style[2].replace(/text-align\s*:[^;]*/i, `text-align: ${value}`)
+        : style[2].replace(/\s*text-align\s*:[^;]*;?/i, '').trim();
+    const result = setAttribute(attributes, 'style', declarations || undefined);
+    return /\salign\s*=/i.test(result) ? setAttribute(result, 'align', value) : result;
+}
+
+/**
+ * Collapses the line breaks of cell content, so it fits in one grid cell.
+ * Only the grid sees the collapsed content: cells that are not edited are written back as they were.
+ */
+function normalizeCellContent(content: string): string {
+    return content.trim().replace(/[ \t]*\r?\n\s*/g, ' ');
+}
+
+/**
+ * Reads the rows and cells of the `<table>` element at the start of the text.
+ * Tables nested in cells are kept as part of the cell content.
+ * End tags that HTML allows to be omitted (`</td>`, `</tr>`, ...) may be missing.
+ */
+function readTableMarkup(text: string): HtmlTableMarkup | null {
+    const rows: HtmlRow[] = [];
+    let startTag: string | null = null;
+    let caption: string | undefined;
+    let captionStart = -1;
+    let section: HtmlSection | null = null;
+    let row: HtmlRow | null = null;
+    let cell: { tag: string; header: boolean; contentStart: number } | null = null;
+    // Depth of tables nested in the current cell
+    let nestedDepth = 0;
+
+    const closeCell = (contentEnd: number) => {
+        if (cell && row) {
+            const [, tagName, attributes] = /^<([a-zA-Z0-9]+)([^>]*)>$/.exec(cell.tag)!;
+            const rawContent = text.slice(cell.contentStart, contentEnd);
+            row.cells.push({
+                header: cell.header,
+                tagName,
+                attributes,
+                content: normalizeCellContent(rawContent),
+                rawContent,
+                rowSpan: getSpanAttribute(cell.tag, 'rowspan'),
+                colSpan: getSpanAttribute(cell.tag, 'colspan'),
+                alignment: getAlignmentAttribute(cell.tag)
+            });
+        }
+        cell = null;
+    };
+    const closeRow = (index: number) => {
+        closeCell(index);
+        if (row) {
+            rows.push(row);
+        }
+        row = null;
+    };
+
+    HTML_TAG.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = HTML_TAG.exec(text)) !== null) {
+        const [tag, slash, rawName] = match;
+        const name = rawName?.toLowerCase();
+        const isEnd = slash === '/';
+
+        if (startTag === null) {
+            // The table must be the first thing in the text
+            if (name !== 'table' || isEnd || text.slice(0, match.index).trim() !== '') {
+                return null;
+            }
+            startTag = tag;
+            continue;
+        }
+        if (name === undefined || (captionStart >= 0 && !(isEnd && name === 'caption'))) {
+            continue;
+        }
+        if (nestedDepth > 0 || (cell && name !== 'table' && !['td', 'th', 'tr', 'thead', 'tbody', 'tfoot'].includes(name))) {
+            if (name === 'table') {
+                nestedDepth += isEnd ? -1 : 1;
+            }
+            continue;
+        }
+
+        switch (name) {
+            case 'table':
+                if (!isEnd) {
+                    // A table inside a cell
+                    nestedDepth++;
+                    break;
+                }
+                closeRow(match.index);
+                return { startTag, caption, rows, end: match.index + tag.length };
+            case 'caption':
+                if (isEnd && captionStart >= 0) {
+                    caption = text.slice(captionStart, match.index + tag.length).trim();
+                    captionStart = -1;
+                } else if (!isEnd) {
+                    captionStart = match.index;
+                }
+                break;
+            case 'thead':
+            case 'tbody':
+            case 'tfoot':
+                closeRow(match.index);
+                section = isEnd ? null : { name, startTag: tag };
+                break;
+            case 'tr':
+                closeRow(match.index);
+                if (!isEnd) {
+                    row = { section, startTag: tag, cells: [] };
+                }
+                break;
+            case 'td':
+            case 'th':
+                closeCell(match.index);
+                if (!isEnd) {
+                    row = row ?? { section, startTag: null, cells: [] };
+                    cell = { tag, header: name === 'th', contentStart: match.index + tag.length };
+                }
+                break;
+        }
+    }
+
+    // No closing `</table>`
+    return null;
+}
+
+/**
+ * Lays out HTML rows on a grid: cells spanning several rows or columns fill
+ * their first grid cell and leave the others empty, and are reported as merges
+ */
+function toGrid(rows: HtmlRow[]): { data: string[][]; merges: CellMerge[]; origins: HtmlCell[][] } {
+    const data: string[][] = rows.map(() => []);
+    const origins: HtmlCell[][] = rows.map(() => []);
+    const merges: CellMerge[] = [];
+
+    rows.forEach((row, rowIndex) => {
+        let col = 0;
+        for (const cell of row.cells) {
+            while (data[rowIndex][col] !== undefined) {
+                col++;
+            }
+            const rowSpan = Math.min(cell.rowSpan, rows.length - rowIndex);
+            for (let r = rowIndex; r < rowIndex + rowSpan; r++) {
+                for (let c = col; c < col + cell.colSpan; c++) {
+                    data[r][c] = r === rowIndex && c === col ? cell.content : '';
+                }
+            }
+            origins[rowIndex][col] = cell;
+            if (rowSpan * cell.colSpan > 1) {
+                merges.push({ row: rowIndex, col, rowSpan, colSpan: cell.colSpan });
+            }
+            col += cell.colSpan;
+        }
+    });
+
+    const columnCount = Math.max(1, ...data.map(row => row.length));
+    return {
+        data: data.map(row => Array.from({ length: columnCount }, (_, col) => row[col] ?? '')),
+        merges,
+        origins
+    };
+}
+
+/**
+ * Returns the alignment of each grid column: that of its first cell that does not span columns
+ */
+function getColumnAlignments(data: string[][], origins: HtmlCell[][]): ColumnAlignment[] {
+    return (data[0] ?? []).map((_, col) => {
+        const cell = origins.map(row => row[col]).find(origin => origin && origin.colSpan === 1);
+        return cell?.alignment ?? 'none';
+    });
+}
+
+/**
+ * Returns the indentation of one nesting level in the original table, if it is indented
+ */
+function getIndentUnit(rawText: string | undefined): string {
+    const nested = rawText?.split(/\r?\n/).slice(1).find(line => /^[ \t]+</.test(line));
+    return nested ? /^[ \t]+/.exec(nested)![0] : DEFAULT_INDENT;
+}
+
+/**
+ * Raw HTML `<table>` blocks.
+ * `colspan`/`rowspan` are loaded as merged cells, column alignments come from the
+ * `align` attribute (or a `text-align` style) of the cells, and rows in `<thead>`
+ * (or leading rows of `<th>` cells) form the header.
+ * Tables are written back with one element per line, indented consistently; rows and
+ * cells keep their tags and attributes, and rows stay in their original sections.
+ */
+export const htmlTableDialect: TableDialect = {
+    name: 'html',
+
+    parse(lines: string[], start: number, end: number): DialectTable | null {
+        if (!/^\s*<table\b/i.test(lines[start])) {
+            return null;
+        }
+
+        // Find the line with the closing tag, which must end the line
+        const text = lines.slice(start, end).join('\n');
+        const markup = readTableMarkup(text);
+        if (!markup || text.slice(markup.end).split('\n')[0].trim() !== '') {
+            return null;
+        }
+        const lineCount = text.slice(0, markup.end).split('\n').length;
+
+        const { data, merges, origins } = toGrid(markup.rows);
+        const isHeadRow = (row: HtmlRow) => row.section?.name === 'thead';
+        const hasHead = markup.rows.some(isHeadRow);
+        let headerRowCount = 0;
+        while (headerRowCount < markup.rows.length && (hasHead
+            ? isHeadRow(markup.rows[headerRowCount])
+            : markup.rows[headerRowCount].cells.length > 0 && markup.rows[headerRowCount].cells.every(cell => cell.header))) {
+            headerRowCount++;
+        }
+
+        const alignments = getColumnAlignments(data, origins);
+        return { lineCount, data, alignments, headerRowCount, merges };
+    },
+
+    serialize(data: string[][], options: DialectSerializeOptions): string {
+        const original = options.originalRawText !== undefined ? readTableMarkup(options.originalRawText) : null;
+        const indent = getIndentUnit(options.originalRawText);
+        const merges = options.merges ?? [];
+        const mergeAt = (row: number, col: number) => merges.find(merge => merge.row === row && merge.col === col);
+        const isCovered = (row: number, col: number) => merges.some(merge =>
+            row >= merge.row && row < merge.row + merge.rowSpan && col >= merge.col && col < merge.col + merge.colSpan &&
+            (row !== merge.row || col !== merge.col));
+
+        const originalRows = original?.rows ?? [];
+        const originalGrid = toGrid(originalRows);
+        const originalData = originalRows.length > 0 ? originalGrid.data : [];
+        const originalAlignments = getColumnAlignments(originalGrid.data, originalGrid.origins);
+
+        // Match the edited columns and rows to the original ones by content, so that rows and cells
+        // keep their attributes when others are inserted, deleted or moved
+        const originalColumnCount = originalData[0]?.length ?? 0;
+        const columnCount = Math.max(0, ...data.map(row => row.length));
+        const oldColumnOf = matchSequences(originalColumnCount, columnCount, (oldCol, newCol) => {
+            let similarity = 0;
+            for (let row = 0; row < Math.min(originalData.length, data.length); row++) {
+                if (originalData[row][oldCol] === (data[row][newCol] ?? '')) {
+                    similarity++;
+                }
+            }
+            return similarity;
+        });
+        const oldRowOf = matchSequences(originalData.length, data.length, (oldRow, newRow) => {
+            let similarity = 0;
+            oldColumnOf.forEach((oldCol, newCol) => {
+                if (oldCol >= 0 && originalData[oldRow][oldCol] === (data[newRow][newCol] ?? '')) {
+                    similarity++;
+                }
+            });
+            return similarity;
+        });
+
+        // Inserted rows join the section of the nearest original row above (or else below) them
+        // that is in the header if and only if they are
+        const newBody: HtmlSection = { name: 'tbody', startTag: '<tbody>' };
+        const newHead: HtmlSection = { name: 'thead', startTag: '<thead>' };
+        const hasSections = originalRows.some(row => row.section !== null);
+        const getSection = (rowIndex: number): HtmlSection | null => {
+            if (oldRowOf[rowIndex] >= 0) {
+                return originalRows[oldRowOf[rowIndex]].section;
+            }
+            const isHead = rowIndex < options.headerRowCount;
+            const neighbours = [...oldRowOf.slice(0, rowIndex).reverse(), ...oldRowOf.slice(rowIndex + 1)];
+            for (const oldRow of neighbours) {
+                const section = oldRow >= 0 ? originalRows[oldRow].section : undefined;
+                if (section !== undefined && (section?.name === 'thead') === isHead) {
+                    return section;
+                }
+            }
+            return !original || hasSections ? (isHead ? newHead : newBody) : null;
+        };
+
+        const formatRow = (rowIndex: number, depth: number): string[] => {
+            const oldRow = oldRowOf[rowIndex];
+            const cells: string[] = [];
+            data[rowIndex].forEach((value, col) => {
+                if (isCovered(rowIndex, col)) {
+                    return;
+                }
+                const merge = mergeAt(rowIndex, col);
+                const oldCol = oldColumnOf[col];
+                // Inserted rows and columns get bare cells
+                const origin = oldRow >= 0 && oldCol >= 0 ? originalGrid.origins[oldRow][oldCol] : undefined;
+                const tagName = origin?.tagName ?? (rowIndex < options.headerRowCount ? 'th' : 'td');
+                let attributes = origin?.attributes ?? '';
+                attributes = setAttribute(attributes, 'rowspan', merge && merge.rowSpan > 1 ? String(merge.rowSpan) : undefined);
+                attributes = setAttribute(attributes, 'colspan', merge && merge.colSpan > 1 ? String(merge.colSpan) : undefined);
+                const alignment = options.alignments[col] ?? 'none';
+                if (!origin || alignment !== (originalAlignments[oldCol] ?? 'none')) {
+                    attributes = setAlignment(attributes, alignment);
+                }
+                const content = origin && value === origin.content ? origin.rawContent.trim() : value.trim();
+                cells.push(indent.repeat(depth + 1) + `<${tagName}${attributes}>${content}</${tagName}>`);
+            });
+            const startTag = oldRow >= 0 ? originalRows[oldRow].startTag : null;
+            return [indent.repeat(depth) + (startTag ?? '<tr>'), ...cells, indent.repeat(depth) + '</tr>'];
+        };
+
+        const lines: string[] = [original?.startTag ?? '<table>'];
+        if (original?.caption) {
+            lines.push(indent + original.caption);
+        }
+        let openSection: HtmlSection | null = null;
+        for (let rowIndex = 0; rowIndex < data.length; rowIndex++) {
+            const section = getSection(rowIndex);
+            if (section !== openSection) {
+                if (openSection) {
+                    lines.push(`${indent}</${openSection.name}>`);
+                }
+                if (section) {
+                    lines.push(indent + section.startTag);
+                }
+                openSection = section;
+            }
+            lines.push(...formatRow(rowIndex, section ? 2 : 1));
+        }
+        if (openSection) {
+            lines.push(`${indent}</${openSection.name}>`);
+        }
+        lines.push('</table>');
+
+        return lines.join(options.eol);
+    }
+};
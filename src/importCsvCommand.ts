@@ -0,0 +1,100 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { decodeText, Delimiter, detectDelimiter, detectEncoding, parseDelimitedText, TEXT_ENCODINGS } from './delimitedText';
+import { TableEditorPanel } from './tableEditorPanel';
+import { LineEnding, TableInfo, tableToMarkdown } from './tableParser';
+import { createEmptyTable } from './tableTemplates';
+
+/** Name of the file type filter of the open dialog */
+const FILE_FILTER_NAME = 'CSV / TSV';
+
+/**
+ * Asks for the encoding of a file, offering the detected one first
+ */
+async function pickEncoding(bytes: Uint8Array): Promise<string | undefined> {
+    const detected = detectEncoding(bytes);
+    const items = TEXT_ENCODINGS.map(({ label, encoding }) => ({
+        label,
+        description: encoding === detected ? 'Detected' : undefined,
+        // Show how the first line reads in this encoding
+        detail: decodeText(bytes.subarray(0, 200), encoding).split(/\r?\n/)[0],
+        encoding
+    })).sort((a, b) => Number(b.encoding === detected) - Number(a.encoding === detected));
+
+    const picked = await vscode.window.showQuickPick(items, { placeHolder: 'Encoding of the file' });
+    return picked?.encoding;
+}
+
+/**
+ * Imports a CSV or TSV file as a new table at the cursor of the active Markdown editor.
+ * The table is previewed in the Table Editor and inserted when it is applied.
+ */
+export async function importCsv(extensionUri: vscode.Uri): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || editor.document.languageId !== 'markdown') {
+        vscode.window.showInformationMessage('Import CSV: Open a Markdown file to import the table into');
+        return;
+    }
+    const document = editor.document;
+
+    const [file] = await vscode.window.showOpenDialog({
+        canSelectMany: false,
+        filters: { [FILE_FILTER_NAME]: ['csv', 'tsv', 'txt'] },
+        openLabel: 'Import'
+    }) ?? [];
+    if (!file) {
+        return;
+    }
+
+    let bytes: Uint8Array;
+    try {
+        bytes = await vscode.workspace.fs.readFile(file);
+    } catch (error) {
+        vscode.window.showErrorMessage(`Import CSV: Failed to read ${path.basename(file.path)}: ${error instanceof Error ? error.message : error}`);
+        return;
+    }
+
+    const encoding = await pickEncoding(bytes);
+    if (!encoding) {
+        return;
+    }
+    const text = decodeText(bytes, encoding);
+    const delimiter: Delimiter = path.extname(file.path).toLowerCase() === '.tsv' ? '\t' : detectDelimiter(text) ?? ',';
+    const rows = parseDelimitedText(text, delimiter);
+    if (rows.length === 0) {
+        vscode.window.showWarningMessage(`Import CSV: ${path.basename(file.path)} has no rows`);
+        return;
+    }
+
+    const header = await vscode.window.showQuickPick(
+        [
+            { label: 'First row is the header', hasHeader: true },
+            { label: 'No header row', description: 'Add Column 1, Column 2, ... as the header', hasHeader: false }
+        ],
+        { placeHolder: `Header of the ${rows.length} imported rows` }
+    );
+    if (!header) {
+        return;
+    }
+    const data = header.hasHeader ? rows : [...createEmptyTable(0, rows[0].length), ...rows];
+
+    // Insert at a blank cursor line, else below the cursor line
+    const line = editor.selection.active.line;
+    const startLine = document.lineAt(line).isEmptyOrWhitespace ? line : line + 1;
+    // The preview shows the cells as read from the file; the Markdown is only written when it is applied
+    const eol: LineEnding = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+    const table: TableInfo = {
+        startLine,
+        endLine: startLine,
+        data,
+        alignments: data[0].map(() => 'none'),
+        pipeStyle: { leading: true, trailing: true },
+        prefix: '',
+        eol,
+        rawText: tableToMarkdown(data, { eol }),
+        dialect: 'pipe',
+        headerRowCount: 1
+    };
+    TableEditorPanel.createForNewTable(extensionUri, document.uri, table);
+    vscode.window.setStatusBarMessage('Review the imported table, then Apply or Save & Close to insert it', 5000);
+}
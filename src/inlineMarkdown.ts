@@ -0,0 +1,153 @@
+/**
+ * What happens to inline Markdown (bold, links, `<br>`, ...) in exported cells:
+ * kept as written, stripped to plain text, or converted to the target format's markup
+ * (HTML for HTML, CSV, TSV and JSON)
+ */
+export type InlineMarkdownMode = 'keep' | 'plain' | 'html';
+
+/**
+ * How inline Markdown is written in a target format. Formatting functions receive their
+ * content already rendered; `text` escapes literal text and `code` escapes its own code.
+ */
+export interface InlineSyntax {
+    text(text: string): string;
+    bold(content: string): string;
+    italic(content: string): string;
+    strikethrough(content: string): string;
+    code(code: string): string;
+    link(content: string, url: string): string;
+    image(alt: string, url: string): string;
+    /** Written for `<br>` */
+    lineBreak: string;
+    /** Written for other raw HTML tags (defaults to the tag as literal text) */
+    htmlTag?(tag: string): string;
+}
+
+/**
+ * Inline Markdown the way the Table Editor renders it, plus backslash escapes, images,
+ * `_italic_` and raw HTML tags
+ */
+const INLINE_TOKEN = new RegExp([
+    /\\([\\`*_{}[\]()#+\-.!|~<>])/.source,
+    /`([^`]+)`/.source,
+    /\*\*(.+?)\*\*/.source,
+    /__(.+?)__/.source,
+    /\*([^*]+)\*/.source,
+    /(?<!\w)_([^_]+)_(?!\w)/.source,
+    /~~(.+?)~~/.source,
+    /!\[([^\]]*)\]\(([^)\s]+)\)/.source,
+    /\[([^\]]+)\]\(([^)\s]+)\)/.source,
+    /(<br\s*\/?>)/.source,
+    /(<\/?[a-z][^>]*>)/.source
+].join('|'), 'gi');
+
+/**
+ * Converts the inline Markdown of a cell to another syntax
+ */
+export function renderInlineMarkdown(text: string, syntax: InlineSyntax): string {
+    let result = '';
+    let last = 0;
+    for (const match of text.matchAll(INLINE_TOKEN)) {
+        result += syntax.text(text.slice(last, match.index));
+        last = match.index! + match[0].length;
+
+        const [, escaped, code, bold, boldUnderscore, italic, italicUnderscore, strikethrough, alt, imageUrl, linkText, linkUrl, lineBreak, tag] = match;
+        if (escaped !== undefined) {
+            result += syntax.text(escaped);
+        } else if (code !== undefined) {
+            result += syntax.code(code);
+        } else if (bold !== undefined || boldUnderscore !== undefined) {
+            result += syntax.bold(renderInlineMarkdown(bold ?? boldUnderscore, syntax));
+        } else if (italic !== undefined || italicUnderscore !== undefined) {
+            result += syntax.italic(renderInlineMarkdown(italic ?? italicUnderscore, syntax));
+        } else if (strikethrough !== undefined) {
+            result += syntax.strikethrough(renderInlineMarkdown(strikethrough, syntax));
+        } else if (imageUrl !== undefined) {
+            result += syntax.image(alt, imageUrl);
+        } else if (linkUrl !== undefined) {
+            result += syntax.link(renderInlineMarkdown(linkText, syntax), linkUrl);
+        } else if (lineBreak !== undefined) {
+            result += syntax.lineBreak;
+        } else {
+            result += syntax.htmlTag ? syntax.htmlTag(tag) : syntax.text(tag);
+        }
+    }
+    return result + syntax.text(text.slice(last));
+}
+
+/**
+ * Escapes text for HTML element content and attribute values
+ */
+export function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+const PLAIN_TEXT_SYNTAX: InlineSyntax = {
+    text: text => text,
+    bold: content => content,
+    italic: content => content,
+    strikethrough: content => content,
+    code: code => code,
+    link: content => content,
+    image: alt => alt,
+    lineBreak: '\n',
+    htmlTag: () => ''
+};
+
+/**
+ * Raw inline HTML elements that are kept when converting cells to HTML; other tags are escaped
+ */
+const ALLOWED_HTML_TAGS = new Set([
+    'b', 'br', 'code', 'del', 'em', 'i', 'ins', 'kbd', 'mark', 's', 'samp', 'small', 'span', 'strong', 'sub', 'sup', 'u', 'var', 'wbr'
+]);
+
+/**
+ * Writes an allowed raw HTML tag without its attributes, and escapes any other tag
+ */
+function keepAllowedHtmlTag(tag: string): string {
+    const [, slash, name] = /^<(\/?)([a-z][a-z0-9]*)/i.exec(tag) ?? [];
+    return name && ALLOWED_HTML_TAGS.has(name.toLowerCase()) ? `<${slash}${name.toLowerCase()}>` : escapeHtml(tag);
+}
+
+const HTML_SYNTAX: InlineSyntax = {
+    text: escapeHtml,
+    bold: content => `<strong>${content}</strong>`,
+    italic: content => `<em>${content}</em>`,
+    strikethrough: content => `<del>${content}</del>`,
+    code: code => `<code>${escapeHtml(code)}</code>`,
+    link: (content, url) => `<a href="${escapeHtml(url)}">${content}</a>`,
+    image: (alt, url) => `<img src="${escapeHtml(url)}" alt="${escapeHtml(alt)}">`,
+    lineBreak: '<br>',
+    htmlTag: keepAllowedHtmlTag
+};
+
+/**
+ * Removes inline Markdown and HTML tags from a cell, keeping its text.
+ * `<br>` becomes a line break.
+ */
+export function markdownToPlainText(text: string): string {
+    return renderInlineMarkdown(text, PLAIN_TEXT_SYNTAX);
+}
+
+/**
+ * Converts the inline Markdown of a cell to HTML, the way the Table Editor displays it.
+ * Raw inline tags such as `<br>` and `<kbd>` are kept (without attributes), other tags are escaped.
+ */
+export function markdownToHtml(text: string): string {
+    return renderInlineMarkdown(text, HTML_SYNTAX);
+}
+
+/**
+ * Writes a cell in a target syntax: kept Markdown and plain text are escaped as literal text,
+ * with the line breaks of plain text written as the syntax's line breaks
+ */
+export function formatCell(cell: string, mode: InlineMarkdownMode, syntax: InlineSyntax): string {
+    switch (mode) {
+        case 'plain':
+            return markdownToPlainText(cell).split('\n').map(line => syntax.text(line)).join(syntax.lineBreak);
+        case 'html':
+            return renderInlineMarkdown(cell, syntax);
+        default:
+            return syntax.text(cell);
+    }
+}
@@ -0,0 +1,99 @@
+import * as vscode from 'vscode';
+import { getTableParseOptions } from './codeLensProvider';
+import { findTableAtLine } from './tableLocation';
+import { ColumnAlignment, LineEnding, parseMarkdownTables, tableToMarkdown, TableOutputStyle } from './tableParser';
+import { TableEditorPanel } from './tableEditorPanel';
+import { createEmptyTable, MAX_NEW_TABLE_SIZE, parseTableSize, TABLE_TEMPLATES } from './tableTemplates';
+
+/**
+ * Contents of a table to insert
+ */
+interface NewTable {
+    data: string[][];
+    alignments?: ColumnAlignment[];
+}
+
+/**
+ * Asks for the size of an empty table or for a template
+ */
+async function pickNewTable(): Promise<NewTable | undefined> {
+    type Item = vscode.QuickPickItem & { table?: NewTable };
+    const items: Item[] = [
+        { label: '$(table) Custom Size...', description: 'Rows × columns' },
+        { label: '3 × 3', description: 'Empty table', table: { data: createEmptyTable(3, 3) } },
+        { label: '5 × 4', description: 'Empty table', table: { data: createEmptyTable(5, 4) } },
+        { label: 'Templates', kind: vscode.QuickPickItemKind.Separator },
+        ...TABLE_TEMPLATES.map(template => ({
+            label: template.label,
+            description: template.description,
+            table: { data: template.data.map(row => [...row]), alignments: template.alignments }
+        }))
+    ];
+
+    const picked = await vscode.window.showQuickPick(items, { placeHolder: 'Choose the size or a template of the new table' });
+    if (!picked || picked.table) {
+        return picked?.table;
+    }
+
+    const input = await vscode.window.showInputBox({
+        prompt: 'Size of the new table as rows × columns (rows below the header)',
+        value: '3x3',
+        validateInput: text =>
+            parseTableSize(text) ? undefined : `Enter rows x columns, each between 1 and ${MAX_NEW_TABLE_SIZE} (e.g. 3x4)`
+    });
+    const size = input !== undefined ? parseTableSize(input) : undefined;
+    return size ? { data: createEmptyTable(size.rows, size.columns) } : undefined;
+}
+
+/**
+ * Inserts a new table at the cursor of the active Markdown editor and opens it in the Table Editor
+ */
+export async function insertTable(extensionUri: vscode.Uri): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || editor.document.languageId !== 'markdown') {
+        vscode.window.showInformationMessage('Insert Table: Open a Markdown file to insert a table into');
+        return;
+    }
+
+    const newTable = await pickNewTable();
+    if (!newTable) {
+        return;
+    }
+
+    const document = editor.document;
+    const eol: LineEnding = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+    const outputStyle = vscode.workspace.getConfiguration('visualTableCanvas').get<TableOutputStyle>('outputStyle', 'preserve');
+    const markdown = tableToMarkdown(newTable.data, {
+        alignments: newTable.alignments,
+        eol,
+        compact: outputStyle === 'compact'
+    });
+
+    // A table must be separated from the surrounding paragraphs by blank lines
+    const line = editor.selection.active.line;
+    const isBlank = (index: number) => index < 0 || index >= document.lineCount || document.lineAt(index).isEmptyOrWhitespace;
+    let range: vscode.Range;
+    let text: string;
+    let startLine: number;
+    if (isBlank(line)) {
+        const blankBefore = !isBlank(line - 1);
+        range = document.lineAt(line).range;
+        text = (blankBefore ? eol : '') + markdown + (isBlank(line + 1) ? '' : eol);
+        startLine = line + (blankBefore ? 1 : 0);
+    } else {
+        range = new vscode.Range(document.lineAt(line).range.end, document.lineAt(line).range.end);
+        text = eol + eol + markdown + (isBlank(line + 1) ? '' : eol);
+        startLine = line + 2;
+    }
+
+    const inserted = await editor.edit(editBuilder => editBuilder.replace(range, text));
+    if (!inserted) {
+        vscode.window.showErrorMessage('Insert Table: Failed to insert the table');
+        return;
+    }
+
+    const table = findTableAtLine(parseMarkdownTables(document.getText(), getTableParseOptions()), startLine);
+    if (table) {
+        TableEditorPanel.createOrShow(extensionUri, document.uri, table);
+    }
+}
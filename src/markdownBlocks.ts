@@ -0,0 +1,264 @@
+/**
+ * Kind of Markdown block a line belongs to.
+ * Tables are only detected in 'text' lines.
+ */
+export type BlockKind = 'text' | 'frontMatter' | 'fencedCode' | 'indentedCode' | 'html';
+
+/**
+ * Block-level HTML tag names that start an HTML block (CommonMark type 6)
+ */
+const HTML_BLOCK_TAGS = [
+    'address', 'article', 'aside', 'base', 'basefont', 'blockquote', 'body', 'caption', 'center',
+    'col', 'colgroup', 'dd', 'details', 'dialog', 'dir', 'div', 'dl', 'dt', 'fieldset', 'figcaption',
+    'figure', 'footer', 'form', 'frame', 'frameset', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'head',
+    'header', 'hr', 'html', 'iframe', 'legend', 'li', 'link', 'main', 'menu', 'menuitem', 'nav',
+    'noframes', 'ol', 'optgroup', 'option', 'p', 'param', 'search', 'section', 'summary', 'table',
+    'tbody', 'td', 'tfoot', 'th', 'thead', 'title', 'tr', 'track', 'ul'
+];
+
+/**
+ * HTML block start conditions (CommonMark types 1-7).
+ * `end` is either a pattern closing the block (inclusive) or 'blank' for "ends before a blank line".
+ */
+interface HtmlBlockRule {
+    start: RegExp;
+    end: RegExp | 'blank';
+    /** Whether this block type may interrupt a paragraph */
+    canInterruptParagraph: boolean;
+}
+
+const HTML_BLOCK_RULES: HtmlBlockRule[] = [
+    { start: /^ {0,3}<(pre|script|style|textarea)(\s|>|$)/i, end: /<\/(pre|script|style|textarea)>/i, canInterruptParagraph: true },
+    { start: /^ {0,3}<!--/, end: /-->/, canInterruptParagraph: true },
+    { start: /^ {0,3}<\?/, end: /\?>/, canInterruptParagraph: true },
+    { start: /^ {0,3}<![A-Za-z]/, end: />/, canInterruptParagraph: true },
+    { start: /^ {0,3}<!\[CDATA\[/, end: /\]\]>/, canInterruptParagraph: true },
+    {
+        start: new RegExp('^ {0,3}</?(' + HTML_BLOCK_TAGS.join('|') + ')(\\s|/?>|$)', 'i'),
+        end: 'blank',
+        canInterruptParagraph: true
+    },
+    {
+        start: /^ {0,3}(<[A-Za-z][A-Za-z0-9-]*(\s+[A-Za-z_:][\w.:-]*(\s*=\s*("[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*\s*\/?>|<\/[A-Za-z][A-Za-z0-9-]*\s*>)\s*$/,
+        end: 'blank',
+        canInterruptParagraph: false
+    }
+];
+
+/**
+ * Opening code fence: up to 3 spaces, then 3+ backticks or tildes.
+ * Backtick fences may not have backticks in their info string.
+ */
+const FENCE_OPEN = /^ {0,3}(`{3,}(?=[^`]*$)|~{3,})/;
+
+/**
+ * Blockquote markers at the start of a line (each `>` may be followed by one space)
+ */
+const BLOCKQUOTE_PREFIX = /^( {0,3}>[ \t]?)*/;
+
+/**
+ * List item marker: `-`, `+`, `*`, `1.` or `1)` followed by whitespace or the end of the line
+ */
+const LIST_ITEM = /^( {0,3})([-+*]|\d{1,9}[.)])([ \t]+|$)/;
+
+/**
+ * Thematic break (`---`, `* * *`, ...), which looks like a list item but is not one
+ */
+const THEMATIC_BREAK = /^ {0,3}([-*_])([ \t]*\1){2,}[ \t]*$/;
+
+/**
+ * A multi-line block that is still open while scanning
+ */
+type OpenBlock =
+    | { kind: 'fencedCode'; depth: number; fenceChar: string; fenceLength: number; indent: number }
+    | { kind: 'indentedCode'; depth: number; indent: number }
+    | { kind: 'html'; depth: number; end: RegExp | 'blank' };
+
+/**
+ * Checks if a line contains only whitespace
+ */
+export function isBlankLine(line: string): boolean {
+    return line.trim() === '';
+}
+
+/**
+ * Returns the indentation width of a line, expanding tabs to the next multiple of 4
+ */
+export function getIndentWidth(line: string): number {
+    let width = 0;
+    for (const char of line) {
+        if (char === ' ') {
+            width++;
+        } else if (char === '\t') {
+            width += 4 - (width % 4);
+        } else {
+            break;
+        }
+    }
+    return width;
+}
+
+/**
+ * Finds the end of YAML front matter starting on the first line, or -1 if there is none
+ */
+function findFrontMatterEnd(lines: string[]): number {
+    if (lines.length === 0 || lines[0].trimEnd() !== '---') {
+        return -1;
+    }
+    for (let i = 1; i < lines.length; i++) {
+        const trimmed = lines[i].trimEnd();
+        if (trimmed === '---' || trimmed === '...') {
+            return i;
+        }
+    }
+    return -1;
+}
+
+/**
+ * Returns the blockquote markers at the start of a line (e.g. `> ` or `> > `)
+ */
+export function getBlockquotePrefix(line: string): string {
+    return BLOCKQUOTE_PREFIX.exec(line)![0];
+}
+
+/**
+ * Removes up to `columns` columns of leading whitespace (tabs count to the next multiple of 4)
+ */
+function stripIndent(line: string, columns: number): string {
+    let width = 0;
+    let i = 0;
+    while (i < line.length && width < columns) {
+        if (line[i] === ' ') {
+            width++;
+        } else if (line[i] === '\t') {
+            width += 4 - (width % 4);
+        } else {
+            break;
+        }
+        i++;
+    }
+    return line.slice(i);
+}
+
+/**
+ * Classifies each line of a Markdown document by the block it belongs to,
+ * so that table-like text inside code, HTML blocks and front matter can be skipped.
+ * Blockquote markers are looked through, and list item indentation is not mistaken for indented code.
+ */
+export function classifyLines(lines: string[]): BlockKind[] {
+    const kinds: BlockKind[] = new Array(lines.length).fill('text');
+
+    let i = 0;
+
+    // YAML front matter is only recognized at the very start of the document
+    const frontMatterEnd = findFrontMatterEnd(lines);
+    if (frontMatterEnd >= 0) {
+        for (; i <= frontMatterEnd; i++) {
+            kinds[i] = 'frontMatter';
+        }
+    }
+
+    // Whether the previous line is paragraph text (indented code cannot interrupt a paragraph)
+    let inParagraph = false;
+    let openBlock: OpenBlock | null = null;
+    // Content columns of the enclosing list items, innermost last
+    const listIndents: number[] = [];
+
+    for (; i < lines.length; i++) {
+        const quotePrefix = getBlockquotePrefix(lines[i]);
+        const depth = (quotePrefix.match(/>/g) ?? []).length;
+        const content = lines[i].slice(quotePrefix.length);
+        const blank = isBlankLine(content);
+
+        // A block ends together with its blockquote
+        if (openBlock && openBlock.depth !== depth) {
+            openBlock = null;
+        }
+
+        if (openBlock) {
+            if (openBlock.kind === 'fencedCode') {
+                // Runs to a closing fence of the same character and at least the same length
+                kinds[i] = 'fencedCode';
+                const close = /^\s*(`{3,}|~{3,})\s*$/.exec(content);
+                if (close && close[1][0] === openBlock.fenceChar && close[1].length >= openBlock.fenceLength &&
+                    getIndentWidth(content) < openBlock.indent + 4) {
+                    openBlock = null;
+                }
+                continue;
+            }
+            if (openBlock.kind === 'indentedCode') {
+                if (blank || getIndentWidth(content) >= openBlock.indent) {
+                    kinds[i] = 'indentedCode';
+                    continue;
+                }
+                openBlock = null;
+            } else if (openBlock.end === 'blank') {
+                if (!blank) {
+                    kinds[i] = 'html';
+                    continue;
+                }
+                openBlock = null;
+            } else {
+                kinds[i] = 'html';
+                if (openBlock.end.test(content)) {
+                    openBlock = null;
+                }
+                continue;
+            }
+        }
+
+        if (blank) {
+            inParagraph = false;
+            continue;
+        }
+
+        // Leave list items that this line is not indented into (lazy paragraph lines stay inside)
+        const indent = getIndentWidth(content);
+        if (!inParagraph) {
+            while (listIndents.length > 0 && indent < listIndents[listIndents.length - 1]) {
+                listIndents.pop();
+            }
+        }
+        const baseIndent = listIndents.length > 0 ? listIndents[listIndents.length - 1] : 0;
+        const relative = stripIndent(content, baseIndent);
+
+        // Fenced code block
+        const fence = FENCE_OPEN.exec(relative);
+        if (fence) {
+            openBlock = { kind: 'fencedCode', depth, fenceChar: fence[1][0], fenceLength: fence[1].length, indent: baseIndent };
+            kinds[i] = 'fencedCode';
+            inParagraph = false;
+            continue;
+        }
+
+        // Indented code block: 4+ columns beyond the list content, not continuing a paragraph
+        if (!inParagraph && getIndentWidth(relative) >= 4) {
+            openBlock = { kind: 'indentedCode', depth, indent: baseIndent + 4 };
+            kinds[i] = 'indentedCode';
+            continue;
+        }
+
+        // HTML block
+        const rule = HTML_BLOCK_RULES.find(r => r.start.test(relative) && (r.canInterruptParagraph || !inParagraph));
+        if (rule) {
+            kinds[i] = 'html';
+            if (rule.end === 'blank' || !rule.end.test(relative)) {
+                openBlock = { kind: 'html', depth, end: rule.end };
+            }
+            inParagraph = false;
+            continue;
+        }
+
+        // List item: remember where its content starts
+        const item = LIST_ITEM.exec(relative);
+        if (item && !THEMATIC_BREAK.test(relative)) {
+            const spaces = item[3].length;
+            const contentOffset = item[1].length + item[2].length + (spaces === 0 || spaces > 4 ? 1 : spaces);
+            listIndents.push(baseIndent + contentOffset);
+        }
+
+        inParagraph = true;
+    }
+
+    return kinds;
+}
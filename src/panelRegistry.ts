@@ -0,0 +1,52 @@
+/**
+ * A panel that can be looked up by the table it edits
+ */
+export interface RegisteredPanel {
+    /** Set once the panel is closed */
+    readonly isDisposed: boolean;
+}
+
+/**
+ * Open Table Editor panels by key (document and table).
+ * Closed panels cannot be added or moved back, so work that finishes after a panel closed
+ * (a save on close, a pending live apply) cannot make later lookups find the closed panel.
+ */
+export class PanelRegistry<T extends RegisteredPanel> {
+    private readonly _panels = new Map<string, T>();
+
+    public get(key: string): T | undefined {
+        return this._panels.get(key);
+    }
+
+    public has(key: string): boolean {
+        return this._panels.has(key);
+    }
+
+    public add(key: string, panel: T): void {
+        if (!panel.isDisposed) {
+            this._panels.set(key, panel);
+        }
+    }
+
+    /**
+     * Removes a panel, if it is the one registered under the key
+     */
+    public remove(key: string, panel: T): void {
+        if (this._panels.get(key) === panel) {
+            this._panels.delete(key);
+        }
+    }
+
+    /**
+     * Moves a panel to the key of its table's new place.
+     * Returns false, leaving the registry as it is, if the panel is closed or another panel has the key.
+     */
+    public move(panel: T, from: string, to: string): boolean {
+        if (panel.isDisposed || this._panels.has(to)) {
+            return false;
+        }
+        this.remove(from, panel);
+        this._panels.set(to, panel);
+        return true;
+    }
+}
@@ -0,0 +1,53 @@
+import * as vscode from 'vscode';
+
+/**
+ * URI scheme of the read-only documents shown in recovery diffs
+ */
+const RECOVERY_SCHEME = 'visual-table-canvas-recovery';
+
+/**
+ * Serves the two sides of recovery diffs from memory, so they open as read-only documents
+ */
+class RecoveryDiffContentProvider implements vscode.TextDocumentContentProvider {
+    private readonly _contents = new Map<string, string>();
+    private _nextId = 0;
+
+    public provideTextDocumentContent(uri: vscode.Uri): string {
+        return this._contents.get(uri.path) ?? '';
+    }
+
+    public add(name: string, content: string): vscode.Uri {
+        const path = `/${this._nextId++}/${name}`;
+        this._contents.set(path, content);
+        return vscode.Uri.from({ scheme: RECOVERY_SCHEME, path });
+    }
+
+    public remove(uri: vscode.Uri): void {
+        this._contents.delete(uri.path);
+    }
+}
+
+const contentProvider = new RecoveryDiffContentProvider();
+
+/**
+ * Registers the provider of recovery diff documents, which forgets their content once they are closed
+ */
+export function registerRecoveryDiffProvider(): vscode.Disposable {
+    return vscode.Disposable.from(
+        vscode.workspace.registerTextDocumentContentProvider(RECOVERY_SCHEME, contentProvider),
+        vscode.workspace.onDidCloseTextDocument(document => {
+            if (document.uri.scheme === RECOVERY_SCHEME) {
+                contentProvider.remove(document.uri);
+            }
+        })
+    );
+}
+
+/**
+ * Opens a diff editor between a table as it is in the document and its recovered edits
+ */
+export async function showRecoveryDiff(documentText: string, recoveredText: string, title: string): Promise<void> {
+    const left = contentProvider.add('document.md', documentText);
+    const right = contentProvider.add('recovered.md', recoveredText);
+    await vscode.commands.executeCommand('vscode.diff', left, right, title, { preview: true });
+}
@@ -0,0 +1,82 @@
+import { getTableKey, resolveTable, TableIdentity } from './tableIdentity';
+import type { CellMerge } from './tableModel';
+import type { ColumnAlignment, TableInfo, TableOutputStyle } from './tableParser';
+
+/**
+ * Key-value storage the checkpoints are kept in (a VS Code `Memento`, such as `workspaceState`)
+ */
+export interface RecoveryStorage {
+    get<T>(key: string): T | undefined;
+    update(key: string, value: unknown): PromiseLike<void>;
+}
+
+/**
+ * Unsaved edits of a table, saved while its Table Editor is open
+ */
+export interface RecoveryEntry {
+    documentUri: string;
+    /** Identity of the table as it was in the document when the edits were saved */
+    identity: TableIdentity;
+    data: string[][];
+    alignments: ColumnAlignment[];
+    merges: CellMerge[];
+    caption?: string;
+    outputStyle: TableOutputStyle;
+    /** Time of the checkpoint (ms since the epoch) */
+    savedAt: number;
+}
+
+/** Storage key of all checkpoints of a workspace */
+const STORAGE_KEY = 'visualTableCanvas.recovery';
+
+/**
+ * Checkpoints of unsaved table edits, keyed by document and table, so that
+ * they survive a crash of the extension host
+ */
+export class RecoveryStore {
+    constructor(private readonly _storage: RecoveryStorage) {}
+
+    /**
+     * Key of a table's checkpoint: its document and its anchor or start line
+     */
+    public static getKey(documentUri: string, table: Pick<TableInfo, 'anchor' | 'startLine'>): string {
+        return documentUri + getTableKey(table);
+    }
+
+    public get entries(): Record<string, RecoveryEntry> {
+        return this._storage.get<Record<string, RecoveryEntry>>(STORAGE_KEY) ?? {};
+    }
+
+    public async save(key: string, entry: RecoveryEntry): Promise<void> {
+        await this._storage.update(STORAGE_KEY, { ...this.entries, [key]: entry });
+    }
+
+    public async remove(key: string): Promise<void> {
+        const entries = this.entries;
+        if (key in entries) {
+            delete entries[key];
+            await this._storage.update(STORAGE_KEY, entries);
+        }
+    }
+
+    /**
+     * Finds the checkpoint of a table, even if the table moved since it was taken
+     */
+    public find(documentUri: string, table: TableInfo): { key: string; entry: RecoveryEntry } | undefined {
+        const candidates = Object.entries(this.entries)
+            .filter(([, entry]) => entry.documentUri === documentUri && resolveTable([table], entry.identity) === table)
+            .sort(([, a], [, b]) => b.savedAt - a.savedAt);
+        return candidates.length > 0 ? { key: candidates[0][0], entry: candidates[0][1] } : undefined;
+    }
+
+    /**
+     * Drops checkpoints older than `maxAge` milliseconds
+     */
+    public async prune(maxAge: number, now: number = Date.now()): Promise<void> {
+        const entries = this.entries;
+        const kept = Object.fromEntries(Object.entries(entries).filter(([, entry]) => now - entry.savedAt <= maxAge));
+        if (Object.keys(kept).length !== Object.keys(entries).length) {
+            await this._storage.update(STORAGE_KEY, kept);
+        }
+    }
+}
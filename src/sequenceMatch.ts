@@ -0,0 +1,55 @@
+/**
+ * Aligns two sequences (table rows or columns) in order, maximizing the total similarity
+ * of the matched pairs, like a weighted longest common subsequence. Unmatched runs of the
+ * same length between two matches are paired up in order, as items edited in place.
+ * Returns the index of the matched old item for each new item, or -1 for inserted items.
+ */
+export function matchSequences(oldCount: number, newCount: number, similarity: (oldIndex: number, newIndex: number) => number): number[] {
+    const scores = Array.from({ length: oldCount + 1 }, () => new Array<number>(newCount + 1).fill(0));
+    const pairScores = Array.from({ length: oldCount }, () => new Array<number>(newCount).fill(0));
+    for (let i = 1; i <= oldCount; i++) {
+        for (let j = 1; j <= newCount; j++) {
+            const pairScore = similarity(i - 1, j - 1);
+            pairScores[i - 1][j - 1] = pairScore;
+            scores[i][j] = Math.max(
+                scores[i - 1][j],
+                scores[i][j - 1],
+                pairScore > 0 ? scores[i - 1][j - 1] + pairScore : 0
+            );
+        }
+    }
+
+    const matches: Array<[number, number]> = [];
+    let i = oldCount;
+    let j = newCount;
+    while (i > 0 && j > 0) {
+        if (scores[i][j] === scores[i - 1][j]) {
+            i--;
+        } else if (scores[i][j] === scores[i][j - 1]) {
+            j--;
+        } else {
+            matches.push([i - 1, j - 1]);
+            i--;
+            j--;
+        }
+    }
+    matches.reverse();
+    matches.push([oldCount, newCount]);
+
+    const oldIndexOf = new Array<number>(newCount).fill(-1);
+    let previousOld = -1;
+    let previousNew = -1;
+    for (const [oldIndex, newIndex] of matches) {
+        if (oldIndex - previousOld === newIndex - previousNew) {
+            for (let k = 1; k < newIndex - previousNew; k++) {
+                oldIndexOf[previousNew + k] = previousOld + k;
+            }
+        }
+        if (newIndex < newCount) {
+            oldIndexOf[newIndex] = oldIndex;
+        }
+        previousOld = oldIndex;
+        previousNew = newIndex;
+    }
+    return oldIndexOf;
+}
@@ -0,0 +1,167 @@
+import { getDisplayWidth, padToAlignment, splitAtDisplayColumns } from './displayWidth';
+import { DialectSerializeOptions, DialectTable, TableDialect } from './tableDialect';
+import type { ColumnAlignment } from './tableParser';
+
+/**
+ * Dashed line under the header of a simple table: one group of dashes per column
+ */
+const DASH_LINE = /^[ \t]*-{2,}(?:[ \t]+-{2,})+[ \t]*$/;
+
+/** Spaces between columns when writing a table */
+const COLUMN_GAP = '  ';
+
+/** Minimum width of a column's dashes */
+const MIN_COLUMN_WIDTH = 3;
+
+/**
+ * Start (inclusive) and end (exclusive) display column of a group of dashes
+ */
+interface DashGroup {
+    start: number;
+    end: number;
+}
+
+function isBlank(line: string | undefined): boolean {
+    return line === undefined || line.trim() === '';
+}
+
+function getDashGroups(line: string): DashGroup[] {
+    return Array.from(line.matchAll(/-+/g), match => ({ start: match.index!, end: match.index! + match[0].length }));
+}
+
+/**
+ * Cuts a row into cells: each cell runs from the start of its dashes to the start of the next column's
+ */
+function splitRow(line: string, groups: DashGroup[]): string[] {
+    return splitAtDisplayColumns(line, groups.slice(1).map(group => group.start));
+}
+
+/**
+ * Reads column alignments from how the header (or, without a header, the first row)
+ * lines up with the dashes: flush on both sides is the default, flush left is left-aligned,
+ * flush right is right-aligned and neither is centered
+ */
+function parseAlignments(line: string, groups: DashGroup[]): ColumnAlignment[] {
+    const pieces = splitRow(line, groups);
+    return groups.map((group, col) => {
+        const piece = pieces[col];
+        if (piece.trim() === '') {
+            return 'none';
+        }
+        const pieceStart = col === 0 ? 0 : group.start;
+        const textStart = pieceStart + getDisplayWidth(piece.slice(0, piece.length - piece.trimStart().length));
+        const textEnd = pieceStart + getDisplayWidth(piece.trimEnd());
+        const flushLeft = textStart <= group.start;
+        const flushRight = textEnd >= group.end;
+        if (flushLeft && flushRight) {
+            return 'none';
+        }
+        return flushLeft ? 'left' : flushRight ? 'right' : 'center';
+    });
+}
+
+/**
+ * Reads the dash widths of an existing simple table, if it has the given column count
+ */
+function getOriginalWidths(rawText: string | undefined, columnCount: number): number[] {
+    const dashLine = rawText?.split(/\r?\n/).find(line => DASH_LINE.test(line));
+    const groups = dashLine ? getDashGroups(dashLine) : [];
+    return groups.length === columnCount ? groups.map(group => group.end - group.start) : [];
+}
+
+/**
+ * Pandoc simple tables:
+ *
+ * ```
+ *   Right  Left   Center   Default
+ * -------  -----  -------  -------
+ *      12  12       12     12
+ * ```
+ *
+ * A headerless table starts and ends with a dashed line.
+ * Cells are single-line; a row ends at the end of its line.
+ */
+export const simpleTableDialect: TableDialect = {
+    name: 'simple',
+
+    parse(lines: string[], start: number, end: number): DialectTable | null {
+        // Tables start a new block
+        if (start > 0 && !isBlank(lines[start - 1])) {
+            return null;
+        }
+
+        const headerless = DASH_LINE.test(lines[start]);
+        const dashLineIndex = headerless ? start : start + 1;
+        if (dashLineIndex >= end || !DASH_LINE.test(lines[dashLineIndex]) || isBlank(lines[start])) {
+            return null;
+        }
+
+        // Rows run until a blank line or a closing dashed line
+        let lineIndex = dashLineIndex + 1;
+        while (lineIndex < end && !isBlank(lines[lineIndex]) && !DASH_LINE.test(lines[lineIndex])) {
+            lineIndex++;
+        }
+        const closed = lineIndex < end && DASH_LINE.test(lines[lineIndex]);
+        const rowEnd = lineIndex;
+        if (rowEnd === dashLineIndex + 1) {
+            return null;
+        }
+        // A headerless table needs the closing line, followed by the end of the block
+        if (headerless && (!closed || (lineIndex + 1 < end && !isBlank(lines[lineIndex + 1])))) {
+            return null;
+        }
+
+        const groups = getDashGroups(lines[dashLineIndex]);
+        const rowLines = headerless
+            ? lines.slice(dashLineIndex + 1, rowEnd)
+            : [lines[start], ...lines.slice(dashLineIndex + 1, rowEnd)];
+
+        return {
+            lineCount: (closed ? rowEnd + 1 : rowEnd) - start,
+            data: rowLines.map(line => splitRow(line, groups).map(cell => cell.trim())),
+            alignments: parseAlignments(rowLines[0], groups),
+            headerRowCount: headerless ? 0 : 1
+        };
+    },
+
+    serialize(data: string[][], options: DialectSerializeOptions): string {
+        const columnCount = Math.max(1, ...data.map(row => row.length));
+        const rows = data.map(row => Array.from({ length: columnCount }, (_, col) => row[col] ?? ''));
+        const alignments = Array.from({ length: columnCount }, (_, col) => options.alignments[col] ?? 'none');
+
+        const originalWidths = getOriginalWidths(options.originalRawText, columnCount);
+        const widths = alignments.map((alignment, col) => {
+            const width = Math.max(
+                MIN_COLUMN_WIDTH,
+                originalWidths[col] ?? 0,
+                ...rows.map(row => getDisplayWidth(row[col]))
+            );
+            // Alignment is read from the first row, so the dashes must stick out on the right side
+            // for left, the left side for right and both sides for center.
+            // A default-aligned column whose content is wider than its first row reads back as left-aligned.
+            const firstWidth = rows.length > 0 ? getDisplayWidth(rows[0][col]) : 0;
+            if (alignment === 'center') {
+                return Math.max(width, firstWidth + 2);
+            }
+            if (alignment === 'left' || alignment === 'right') {
+                return Math.max(width, firstWidth + 1);
+            }
+            return width;
+        });
+
+        const formatRow = (row: string[]) =>
+            row.map((cell, col) => padToAlignment(cell, widths[col], alignments[col])).join(COLUMN_GAP).trimEnd();
+        const dashLine = widths.map(width => '-'.repeat(width)).join(COLUMN_GAP);
+
+        if (options.headerRowCount === 0) {
+            return [dashLine, ...rows.map(formatRow), dashLine].join(options.eol);
+        }
+        const lines = [formatRow(rows[0]), dashLine, ...rows.slice(1).map(formatRow)];
+        // Keep an optional closing dashed line
+        const originalLines = options.originalRawText?.split(/\r?\n/) ?? [];
+        if (originalLines.length > 2 && DASH_LINE.test(originalLines[originalLines.length - 1])) {
+            lines.push(dashLine);
+        }
+        return lines.join(options.eol);
+    }
+};
@@ -0,0 +1,95 @@
+import * as vscode from 'vscode';
+import { getTableParseOptions } from './codeLensProvider';
+import { resolveTable, TableIdentity } from './tableIdentity';
+import { findTableAtLine } from './tableLocation';
+import { parseMarkdownTables, TableInfo } from './tableParser';
+
+/**
+ * Context key that is true while the cursor of the active Markdown editor is inside a table
+ */
+const CURSOR_IN_TABLE_CONTEXT = 'visualTableCanvas.cursorInTable';
+
+/**
+ * Tables of the document parsed last, reused while the cursor moves within an unchanged document
+ */
+let parsedDocument: { uri: string; version: number; tables: TableInfo[] } | undefined;
+
+function getDocumentTables(document: vscode.TextDocument): TableInfo[] {
+    const uri = document.uri.toString();
+    if (parsedDocument?.uri !== uri || parsedDocument.version !== document.version) {
+        parsedDocument = {
+            uri,
+            version: document.version,
+            tables: parseMarkdownTables(document.getText(), getTableParseOptions())
+        };
+    }
+    return parsedDocument.tables;
+}
+
+/**
+ * Finds the table under the cursor of a Markdown editor
+ */
+export function getTableAtCursor(editor: vscode.TextEditor): TableInfo | undefined {
+    if (editor.document.languageId !== 'markdown') {
+        return undefined;
+    }
+    return findTableAtLine(getDocumentTables(editor.document), editor.selection.active.line);
+}
+
+/**
+ * Finds the table a command was run for: the table passed by its CodeLens, or else the table
+ * under the cursor of the active editor. Shows a message starting with `commandTitle` if there is none.
+ */
+export async function getCommandTable(
+    commandTitle: string,
+    uri?: vscode.Uri,
+    identity?: TableIdentity
+): Promise<{ uri: vscode.Uri; table: TableInfo } | undefined> {
+    if (!uri || !identity) {
+        const editor = vscode.window.activeTextEditor;
+        const table = editor ? getTableAtCursor(editor) : undefined;
+        if (!editor || !table) {
+            vscode.window.showInformationMessage(`${commandTitle}: Place the cursor inside a Markdown table`);
+            return undefined;
+        }
+        return { uri: editor.document.uri, table };
+    }
+
+    // The document may have changed since the CodeLens was shown
+    const document = await vscode.workspace.openTextDocument(uri);
+    const table = resolveTable(parseMarkdownTables(document.getText(), getTableParseOptions()), identity);
+    if (!table) {
+        vscode.window.showWarningMessage(`${commandTitle}: The table was not found. It may have been changed or removed.`);
+        return undefined;
+    }
+    return { uri, table };
+}
+
+function updateCursorInTableContext(editor: vscode.TextEditor | undefined) {
+    const inTable = editor !== undefined && getTableAtCursor(editor) !== undefined;
+    vscode.commands.executeCommand('setContext', CURSOR_IN_TABLE_CONTEXT, inTable);
+}
+
+/**
+ * Keeps the `visualTableCanvas.cursorInTable` context key up to date, for the editor context menu
+ */
+export function registerCursorInTableContext(): vscode.Disposable {
+    updateCursorInTableContext(vscode.window.activeTextEditor);
+
+    return vscode.Disposable.from(
+        vscode.window.onDidChangeActiveTextEditor(editor => updateCursorInTableContext(editor)),
+        vscode.window.onDidChangeTextEditorSelection(event => updateCursorInTableContext(event.textEditor)),
+        vscode.workspace.onDidChangeTextDocument(event => {
+            const editor = vscode.window.activeTextEditor;
+            if (editor && event.document === editor.document) {
+                updateCursorInTableContext(editor);
+            }
+        }),
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('visualTableCanvas')) {
+                parsedDocument = undefined;
+                updateCursorInTableContext(vscode.window.activeTextEditor);
+            }
+        })
+    );
+}
@@ -0,0 +1,71 @@
+import type { CellMerge } from './tableModel';
+import type { ColumnAlignment, LineEnding } from './tableParser';
+
+/**
+ * Table syntaxes that can be detected, edited and written back:
+ * 'pipe' (GFM), 'grid' (pandoc `+---+` grid tables), 'simple' (pandoc simple tables),
+ * 'html' (raw HTML `<table>` blocks)
+ */
+export type TableDialectName = 'pipe' | 'grid' | 'simple' | 'html';
+
+/**
+ * A table found by a dialect
+ */
+export interface DialectTable {
+    /** Number of lines the table occupies, starting at the line it was found at */
+    lineCount: number;
+    /** Table data as 2D array (multi-line cells joined with `<br>`) */
+    data: string[][];
+    /** Alignment of each column */
+    alignments: ColumnAlignment[];
+    /** Number of leading rows that form the header (0 for headerless tables) */
+    headerRowCount: number;
+    /** Cells spanning several rows or columns */
+    merges?: CellMerge[];
+}
+
+/**
+ * Options for writing a table in a dialect
+ */
+export interface DialectSerializeOptions {
+    /** Column alignments (missing entries are 'none') */
+    alignments: ColumnAlignment[];
+    /** Number of leading rows to write as the header */
+    headerRowCount: number;
+    /** Line ending to join lines with */
+    eol: LineEnding;
+    /** Cells spanning several rows or columns (dialects that cannot write them ignore them) */
+    merges?: CellMerge[];
+    /** Original text of the table without its container prefix, used to keep column widths */
+    originalRawText?: string;
+}
+
+/**
+ * A table syntax other than pipe tables.
+ * Dialects read lines without blockquote markers but with their indentation,
+ * and write lines without any container prefix.
+ */
+export interface TableDialect {
+    readonly name: TableDialectName;
+    /**
+     * Parses a table starting at `lines[start]`, reading no further than `lines[end - 1]`.
+     * Returns null if no table of this dialect starts there.
+     */
+    parse(lines: string[], start: number, end: number): DialectTable | null;
+    /**
+     * Writes table data in this dialect
+     */
+    serialize(data: string[][], options: DialectSerializeOptions): string;
+}
+
+/**
+ * Line break inside a cell, used to hold multi-line cell content in the grid
+ */
+export const CELL_LINE_BREAK = '<br>';
+
+/**
+ * Splits cell content into its lines at `<br>` tags
+ */
+export function splitCellLines(value: string): string[] {
+    return value.split(/<br\s*\/?>/i);
+}
@@ -1,5 +1,54 @@
 import * as vscode from 'vscode';
-import { TableInfo } from './tableParser';
+import { getTableParseOptions } from './codeLensProvider';
+import { exportTableToFile } from './exportCommand';
+import { PanelRegistry } from './panelRegistry';
+import { showRecoveryDiff } from './recoveryDiff';
+import { RecoveryEntry, RecoveryStore } from './recoveryStore';
+import { TableDialectName } from './tableDialect';
+import { getTableFingerprint, getTableIdentity, getTableKey, resolveTable, TableIdentity } from './tableIdentity';
+import { CellMerge } from './tableModel';
+import { ColumnAlignment, TableInfo, TableOutputStyle } from './tableParser';
+
+/**
+ * Selected range of the grid, as kept by the webview
+ */
+export interface GridSelection {
+    startRow: number;
+    startCol: number;
+    endRow: number;
+    endCol: number;
+    activeRow: number;
+    activeCol: number;
+    type: 'cell' | 'row' | 'column';
+}
+
+/**
+ * View settings of the grid that are restored with the panel
+ */
+export interface TableEditorView {
+    selection: GridSelection;
+    zoomLevel: number;
+    freezeFirstRow: boolean;
+    /** Column width limit used when fitting columns to their content */
+    maxColumnWidth: number;
+}
+
+/**
+ * State the webview saves with `setState`, from which the panel is restored after a window reload
+ */
+export interface TableEditorState {
+    documentUri: string;
+    /** Identity of the table as it was in the document */
+    identity: TableIdentity;
+    data: string[][];
+    alignments: ColumnAlignment[];
+    merges: CellMerge[];
+    caption: string;
+    outputStyle: TableOutputStyle;
+    /** Whether the grid had changes that were not applied to the document */
+    modified: boolean;
+    view: TableEditorView;
+}
 
 /**
  * Message types for communication between extension and webview
@@ -7,12 +56,39 @@ import { TableInfo } from './tableParser';
 export interface TableData {
     type: 'tableData';
     data: string[][];
-    tableIndex: number;
+    alignments: ColumnAlignment[];
+    outputStyle: TableOutputStyle;
+    dialect: TableDialectName;
+    merges: CellMerge[];
+    /** Whether the table has a MultiMarkdown caption that can be edited */
+    multiMarkdown: boolean;
+    caption: string;
+    /** Set when the table was reloaded after the document changed, replacing the grid and its undo history */
+    reloaded?: boolean;
+    /** Document and identity of the table, saved in the webview state */
+    documentUri: string;
+    identity: TableIdentity;
+    /** Whether the data has changes that are not applied to the document (after a restore) */
+    modified: boolean;
+    /** View settings to restore */
+    view?: TableEditorView;
+}
+
+/**
+ * Sent when the table moved or was written, so the webview state keeps its current identity
+ */
+export interface TableIdentityChanged {
+    type: 'tableIdentity';
+    identity: TableIdentity;
 }
 
 export interface UpdateTable {
     type: 'updateTable';
     data: string[][];
+    alignments: ColumnAlignment[];
+    merges: CellMerge[];
+    /** Change counter of the webview, sent back in `TableApplied` after a live apply */
+    version: number;
 }
 
 export interface WebviewReady {
@@ -26,6 +102,8 @@ export interface RequestSave {
 export interface SaveConfirmed {
     type: 'saveConfirmed';
     data: string[][];
+    alignments: ColumnAlignment[];
+    merges: CellMerge[];
 }
 
 export interface SaveCancelled {
@@ -35,57 +113,179 @@ export interface SaveCancelled {
 export interface SaveAndClose {
     type: 'saveAndClose';
     data: string[][];
+    alignments: ColumnAlignment[];
+    merges: CellMerge[];
+}
+
+/**
+ * Writes the table into the document and keeps the panel open
+ */
+export interface ApplyTable {
+    type: 'apply';
+    data: string[][];
+    alignments: ColumnAlignment[];
+    merges: CellMerge[];
+    /** Change counter of the webview, sent back in `TableApplied` */
+    version: number;
+}
+
+export interface TableApplied {
+    type: 'applied';
+    version: number;
+}
+
+export interface SetOutputStyle {
+    type: 'setOutputStyle';
+    outputStyle: TableOutputStyle;
+    version: number;
+}
+
+export interface SetCaption {
+    type: 'setCaption';
+    caption: string;
+    version: number;
+}
+
+export interface EditingChanged {
+    type: 'editingChanged';
+    editing: boolean;
+}
+
+/**
+ * Exports the grid, including edits that are not applied yet, to a file
+ */
+export interface ExportTable {
+    type: 'exportTable';
+    data: string[][];
+    alignments: ColumnAlignment[];
+    merges: CellMerge[];
 }
 
-export type ExtensionToWebviewMessage = TableData;
-export type WebviewToExtensionMessage = UpdateTable | SaveConfirmed | SaveCancelled | SaveAndClose | WebviewReady;
+export type ExtensionToWebviewMessage = TableData | TableApplied | TableIdentityChanged;
+export type WebviewToExtensionMessage = UpdateTable | SaveConfirmed | SaveCancelled | SaveAndClose | ApplyTable | SetOutputStyle | SetCaption | EditingChanged | ExportTable | WebviewReady;
+
+/**
+ * Delay after the last grid edit before it is written into the document in live apply mode (ms)
+ */
+const LIVE_APPLY_DELAY = 300;
+
+/**
+ * Delay after an edit before unsaved edits are checkpointed for crash recovery (ms)
+ */
+const CHECKPOINT_DELAY = 2000;
 
 /**
  * Manages the Webview Panel for table editing
  */
 export class TableEditorPanel {
-    public static currentPanels: Map<string, TableEditorPanel> = new Map();
-    private static readonly viewType = 'visualTableCanvas.tableEditor';
+    public static currentPanels = new PanelRegistry<TableEditorPanel>();
+    public static readonly viewType = 'visualTableCanvas.tableEditor';
+    /** Where unsaved edits are checkpointed (set on activation) */
+    public static recoveryStore: RecoveryStore | undefined;
 
     private readonly _panel: vscode.WebviewPanel;
     private readonly _extensionUri: vscode.Uri;
     private readonly _documentUri: vscode.Uri;
-    private readonly _tableInfo: TableInfo;
-    private readonly _tableIndex: number;
+    /** The table as it is in the document now, kept up to date as the document changes */
+    private _tableInfo: TableInfo;
+    /** Key in `currentPanels`, which follows the table as it moves */
+    private _key: string;
     private _disposables: vscode.Disposable[] = [];
     private _isDirty: boolean = false;
+    /** Incremented on every edit, so a save only clears the dirty state if no edit arrived meanwhile */
+    private _editVersion: number = 0;
+    private _isDisposed: boolean = false;
+    /** Writes into the document run one after another, each starting from where the previous one left the table */
+    private _pendingWrite: Promise<void> = Promise.resolve();
+    /** Pending live apply of the latest grid edits */
+    private _liveApplyTimer: ReturnType<typeof setTimeout> | undefined;
+    /** Webview change counter of the latest edit */
+    private _webviewVersion: number = 0;
+    /** The one cell changed by the previous live apply (`row:col`), whose undo stop the next edit of that cell joins */
+    private _lastLiveEditCell: string | undefined;
+    /** A cell is being edited in the webview (its text is not in `_currentData` yet) */
+    private _isEditingCell: boolean = false;
+    /** Set while our own edit is applied, so the document change it causes is not treated as an outside change */
+    private _isApplyingEdit: boolean = false;
+    /** Set while the conflict prompt is shown */
+    private _isConflictPromptOpen: boolean = false;
+    /** The table's lines were deleted from the document; saving inserts the table again where it was */
+    private _isTableRemoved: boolean = false;
     private _currentData: string[][];
+    private _currentAlignments: ColumnAlignment[];
+    private _currentMerges: CellMerge[];
+    private _caption: string | undefined;
+    private _outputStyle: TableOutputStyle;
     private _defaultMaxColumnWidth: number = 300;
+    /** View settings of a restored panel, sent with the first table data */
+    private _restoredView: TableEditorView | undefined;
+    /** Pending checkpoint of unsaved edits */
+    private _checkpointTimer: ReturnType<typeof setTimeout> | undefined;
+    /** Key of this table's checkpoint in the recovery store, once one was saved */
+    private _recoveryKey: string | undefined;
+
+    /** The panel was closed */
+    public get isDisposed(): boolean {
+        return this._isDisposed;
+    }
 
     public static createOrShow(
         extensionUri: vscode.Uri,
         documentUri: vscode.Uri,
-        tableInfo: TableInfo,
-        tableIndex: number
+        tableInfo: TableInfo
     ): TableEditorPanel {
-        const key = `${documentUri.toString()}-${tableIndex}`;
-
-        // Read configuration
-        const config = vscode.workspace.getConfiguration('visualTableCanvas');
-        const openBeside = config.get<boolean>('openBeside', true);
-        const viewColumn = openBeside ? vscode.ViewColumn.Beside : vscode.ViewColumn.Active;
-
         // If panel already exists, reveal it
-        const existingPanel = TableEditorPanel.currentPanels.get(key);
+        const existingPanel = TableEditorPanel.currentPanels.get(TableEditorPanel._getPanelKey(documentUri, tableInfo));
         if (existingPanel) {
-            existingPanel._panel.reveal(viewColumn);
+            existingPanel._panel.reveal(TableEditorPanel._getViewColumn());
             return existingPanel;
         }
 
+        const tableEditorPanel = TableEditorPanel._create(extensionUri, documentUri, tableInfo);
+
+        // Edits left unsaved by a crash can be recovered
+        const recovered = TableEditorPanel.recoveryStore?.find(documentUri.toString(), tableInfo);
+        if (recovered) {
+            tableEditorPanel._recoveryKey = recovered.key;
+            tableEditorPanel._offerRecovery(recovered.entry);
+        }
+        return tableEditorPanel;
+    }
+
+    /**
+     * Opens a Table Editor for a table that is not in the document yet, e.g. to preview an import.
+     * Applying the table inserts it at `tableInfo.startLine`; closing the editor without saving discards it.
+     */
+    public static createForNewTable(
+        extensionUri: vscode.Uri,
+        documentUri: vscode.Uri,
+        tableInfo: TableInfo
+    ): TableEditorPanel {
+        const tableEditorPanel = TableEditorPanel._create(extensionUri, documentUri, tableInfo);
+        tableEditorPanel._isTableRemoved = true;
+        tableEditorPanel._editVersion++;
+        tableEditorPanel._setDirty(true);
+        return tableEditorPanel;
+    }
+
+    private static _getViewColumn(): vscode.ViewColumn {
+        // Read configuration
+        const openBeside = vscode.workspace.getConfiguration('visualTableCanvas').get<boolean>('openBeside', true);
+        return openBeside ? vscode.ViewColumn.Beside : vscode.ViewColumn.Active;
+    }
+
+    /**
+     * Opens a new panel for a table and registers it
+     */
+    private static _create(extensionUri: vscode.Uri, documentUri: vscode.Uri, tableInfo: TableInfo): TableEditorPanel {
         // Create a new panel
         const panel = vscode.window.createWebviewPanel(
             TableEditorPanel.viewType,
-            `Table Editor - Table ${tableIndex + 1}`,
-            viewColumn,
+            TableEditorPanel._getTitle(tableInfo),
+            TableEditorPanel._getViewColumn(),
             {
-                enableScripts: true,
-                retainContextWhenHidden: true,
-                localResourceRoots: [vscode.Uri.joinPath(extensionUri, 'media')]
+                ...TableEditorPanel._getWebviewOptions(extensionUri),
+                retainContextWhenHidden: true
             }
         );
 
@@ -93,32 +293,120 @@ export class TableEditorPanel {
             panel,
             extensionUri,
             documentUri,
-            tableInfo,
-            tableIndex
+            tableInfo
         );
 
-        TableEditorPanel.currentPanels.set(key, tableEditorPanel);
+        TableEditorPanel.currentPanels.add(tableEditorPanel._key, tableEditorPanel);
         return tableEditorPanel;
     }
 
+    /**
+     * Restores a panel after a window reload from the state its webview saved.
+     * The table is looked up again in the current document text; unsaved grid changes are kept,
+     * with a conflict prompt if the table was changed in the document meanwhile.
+     */
+    public static async revive(
+        panel: vscode.WebviewPanel,
+        extensionUri: vscode.Uri,
+        state: TableEditorState | undefined
+    ): Promise<void> {
+        if (!state?.documentUri || !state.identity) {
+            panel.dispose();
+            return;
+        }
+
+        const { parseMarkdownTables, tableToMarkdown } = await import('./tableParser');
+        const documentUri = vscode.Uri.parse(state.documentUri);
+        let table: TableInfo | undefined;
+        try {
+            const document = await vscode.workspace.openTextDocument(documentUri);
+            table = resolveTable(parseMarkdownTables(document.getText(), getTableParseOptions()), state.identity);
+        } catch {
+            table = undefined;
+        }
+
+        const key = table && TableEditorPanel._getPanelKey(documentUri, table);
+        if (!table || TableEditorPanel.currentPanels.has(key!)) {
+            panel.dispose();
+            if (!table && state.modified) {
+                // Keep the edits somewhere the user can get them back from
+                await vscode.env.clipboard.writeText(tableToMarkdown(state.data, { alignments: state.alignments }));
+                vscode.window.showWarningMessage(
+                    'Table Editor: The table could not be found in the document any more. Its unsaved edits were copied to the clipboard.'
+                );
+            }
+            return;
+        }
+
+        panel.webview.options = TableEditorPanel._getWebviewOptions(extensionUri);
+        panel.title = TableEditorPanel._getTitle(table);
+        const tableEditorPanel = new TableEditorPanel(panel, extensionUri, documentUri, table, state);
+        TableEditorPanel.currentPanels.add(key!, tableEditorPanel);
+
+        if (state.modified && getTableFingerprint(table) !== state.identity.fingerprint) {
+            tableEditorPanel._promptConflict();
+        }
+    }
+
+    private static _getWebviewOptions(extensionUri: vscode.Uri): vscode.WebviewOptions {
+        return {
+            enableScripts: true,
+            localResourceRoots: [
+                vscode.Uri.joinPath(extensionUri, 'media'),
+                vscode.Uri.joinPath(extensionUri, 'dist')
+            ]
+        };
+    }
+
+    /**
+     * Panels are keyed by document and table anchor, or the line the table starts at
+     */
+    private static _getPanelKey(documentUri: vscode.Uri, tableInfo: TableInfo): string {
+        return documentUri.toString() + getTableKey(tableInfo);
+    }
+
+    private static _getTitle(tableInfo: TableInfo): string {
+        return `Table Editor - ${tableInfo.anchor ?? `Line ${tableInfo.startLine + 1}`}`;
+    }
+
     private constructor(
         panel: vscode.WebviewPanel,
         extensionUri: vscode.Uri,
         documentUri: vscode.Uri,
         tableInfo: TableInfo,
-        tableIndex: number
+        restored?: TableEditorState
     ) {
         this._panel = panel;
         this._extensionUri = extensionUri;
         this._documentUri = documentUri;
         this._tableInfo = tableInfo;
-        this._tableIndex = tableIndex;
+        this._key = TableEditorPanel._getPanelKey(documentUri, tableInfo);
         this._currentData = JSON.parse(JSON.stringify(tableInfo.data));
+        this._currentAlignments = [...tableInfo.alignments];
+        this._currentMerges = [...tableInfo.merges ?? []];
+        this._caption = tableInfo.caption?.text;
 
         // Read configuration for default max column width
         const config = vscode.workspace.getConfiguration('visualTableCanvas');
         this._defaultMaxColumnWidth = config.get<number>('defaultMaxColumnWidth', 300);
 
+        // A table-style comment above the table overrides the configured output style
+        this._outputStyle = tableInfo.outputStyle ?? config.get<TableOutputStyle>('outputStyle', 'preserve');
+
+        if (restored) {
+            this._restoredView = restored.view;
+            this._outputStyle = restored.outputStyle;
+            if (restored.modified) {
+                this._currentData = restored.data;
+                this._currentAlignments = restored.alignments;
+                this._currentMerges = restored.merges;
+                this._caption = restored.caption;
+                this._setDirty(true);
+                // The checkpoint taken before the reload now belongs to this panel
+                this._recoveryKey = TableEditorPanel.recoveryStore?.find(documentUri.toString(), tableInfo)?.key;
+            }
+        }
+
         // Set the webview's initial html content
         this._update();
 
@@ -131,6 +419,13 @@ export class TableEditorPanel {
             this._disposables
         );
 
+        // Follow the table as the document is edited outside the panel
+        vscode.workspace.onDidChangeTextDocument(
+            event => this._onDocumentChanged(event),
+            null,
+            this._disposables
+        );
+
         // Handle panel disposal
         this._panel.onDidDispose(
             () => this._onDispose(),
@@ -146,27 +441,63 @@ export class TableEditorPanel {
                 break;
             case 'updateTable':
                 this._currentData = message.data;
-                this._isDirty = true;
+                this._currentAlignments = message.alignments;
+                this._currentMerges = message.merges;
+                this._markDirty(message.version);
                 break;
             case 'saveConfirmed':
-                await this._saveToDocument(message.data);
+                await this._saveToDocument(message.data, message.alignments, message.merges);
                 break;
             case 'saveCancelled':
                 // User cancelled save, just close
                 break;
+            case 'setOutputStyle':
+                this._outputStyle = message.outputStyle;
+                this._markDirty(message.version);
+                break;
+            case 'setCaption':
+                this._caption = message.caption;
+                this._markDirty(message.version);
+                break;
+            case 'editingChanged':
+                this._isEditingCell = message.editing;
+                break;
             case 'saveAndClose':
-                await this._saveToDocument(message.data);
+                await this._saveToDocument(message.data, message.alignments, message.merges);
                 this._isDirty = false; // Prevent confirmation dialog
                 this._panel.dispose();
                 break;
+            case 'apply':
+                await this._saveToDocument(message.data, message.alignments, message.merges);
+                this._panel.webview.postMessage({ type: 'applied', version: message.version } as TableApplied);
+                break;
+            case 'exportTable':
+                await exportTableToFile(this._documentUri, this._tableInfo, {
+                    data: message.data,
+                    alignments: message.alignments,
+                    merges: message.merges,
+                    caption: this._caption
+                });
+                break;
         }
     }
 
     private async _onDispose() {
-        const key = `${this._documentUri.toString()}-${this._tableIndex}`;
-        TableEditorPanel.currentPanels.delete(key);
+        this._isDisposed = true;
+        TableEditorPanel.currentPanels.remove(this._key, this);
+        if (this._checkpointTimer !== undefined) {
+            clearTimeout(this._checkpointTimer);
+            this._checkpointTimer = undefined;
+        }
 
-        if (this._isDirty) {
+        if (this._liveApplyTimer !== undefined) {
+            // Live edits are written without asking
+            clearTimeout(this._liveApplyTimer);
+            this._liveApplyTimer = undefined;
+            if (this._isDirty) {
+                await this._saveToDocument(this._currentData, this._currentAlignments, this._currentMerges, { mergeUndo: false });
+            }
+        } else if (this._isDirty) {
             const result = await vscode.window.showInformationMessage(
                 'Table has been modified. Save changes?',
                 { modal: true },
@@ -175,7 +506,9 @@ export class TableEditorPanel {
             );
 
             if (result === 'Save') {
-                await this._saveToDocument(this._currentData);
+                await this._saveToDocument(this._currentData, this._currentAlignments, this._currentMerges);
+            } else if (result === 'Don\'t Save') {
+                this._setDirty(false);
             }
         }
 
@@ -188,47 +521,401 @@ export class TableEditorPanel {
         }
     }
 
-    private async _saveToDocument(data: string[][]) {
-        const { tableToMarkdownPreserveFormat } = await import('./tableParser');
-        const newMarkdown = tableToMarkdownPreserveFormat(data, this._tableInfo.rawText, this._tableInfo.data);
+    /**
+     * Writes the table into the document, and saves the file if `saveFileOnApply` is on.
+     * Live edits go through the document's text editor when it is visible, so that they can share an undo stop
+     * with the previous live edit; they never save the file.
+     */
+    private _saveToDocument(
+        data: string[][],
+        alignments: ColumnAlignment[],
+        merges: CellMerge[],
+        liveEdit?: { mergeUndo: boolean }
+    ): Promise<void> {
+        if (this._liveApplyTimer !== undefined && !liveEdit) {
+            // This write includes the pending live edits
+            clearTimeout(this._liveApplyTimer);
+            this._liveApplyTimer = undefined;
+        }
+        const editVersion = this._editVersion;
+        const write = this._pendingWrite.then(() => this._writeToDocument(data, alignments, merges, editVersion, liveEdit));
+        this._pendingWrite = write.catch(() => undefined);
+        return write;
+    }
 
+    private async _writeToDocument(
+        data: string[][],
+        alignments: ColumnAlignment[],
+        merges: CellMerge[],
+        editVersion: number,
+        liveEdit: { mergeUndo: boolean } | undefined
+    ) {
+        const { serializeTable } = await import('./tableParser');
         const document = await vscode.workspace.openTextDocument(this._documentUri);
-        const edit = new vscode.WorkspaceEdit();
+        const eol = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+
+        // Written back in the table's own dialect, with its blockquote/list prefix
+        const newMarkdown = serializeTable(data, this._tableInfo, this._outputStyle, {
+            alignments,
+            eol,
+            merges,
+            caption: this._caption
+        });
+
+        const startLine = Math.min(this._tableInfo.startLine, document.lineCount);
+        let range: vscode.Range;
+        let text = newMarkdown;
+        let tableLine = startLine;
+        if (this._isTableRemoved) {
+            // Put the table back where it was deleted (or insert a new table), with blank lines around it
+            const isBlank = (line: number) => line < 0 || line >= document.lineCount || document.lineAt(line).isEmptyOrWhitespace;
+            const blankBefore = isBlank(startLine - 1) ? '' : eol;
+            const position = startLine < document.lineCount
+                ? new vscode.Position(startLine, 0)
+                : document.lineAt(document.lineCount - 1).range.end;
+            range = new vscode.Range(position, position);
+            text = startLine < document.lineCount
+                ? blankBefore + newMarkdown + eol + (isBlank(startLine) ? '' : eol)
+                : eol + blankBefore + newMarkdown;
+            tableLine = startLine + (blankBefore ? 1 : 0);
+        } else {
+            const startPos = new vscode.Position(startLine, 0);
+            const endPos = new vscode.Position(
+                this._tableInfo.endLine,
+                document.lineAt(this._tableInfo.endLine).text.length
+            );
+            range = new vscode.Range(startPos, endPos);
+        }
+
+        this._isApplyingEdit = true;
+        try {
+            const editor = liveEdit && vscode.window.visibleTextEditors.find(candidate => candidate.document === document);
+            if (editor) {
+                await editor.edit(builder => builder.replace(range, text), {
+                    undoStopBefore: !liveEdit.mergeUndo,
+                    undoStopAfter: false
+                });
+            } else {
+                const edit = new vscode.WorkspaceEdit();
+                edit.replace(this._documentUri, range, text);
+                await vscode.workspace.applyEdit(edit);
+            }
+        } finally {
+            this._isApplyingEdit = false;
+        }
+        await this._relocateSavedTable(document, tableLine);
+
+        if (this._editVersion === editVersion) {
+            this._setDirty(false);
+        }
+        if (liveEdit) {
+            this._panel.webview.postMessage({ type: 'applied', version: this._webviewVersion } as TableApplied);
+            return;
+        }
+
+        this._lastLiveEditCell = undefined;
+        const saveFile = vscode.workspace.getConfiguration('visualTableCanvas').get<boolean>('saveFileOnApply', false);
+        if (saveFile) {
+            await document.save();
+        }
+        vscode.window.setStatusBarMessage(saveFile ? 'Table saved' : 'Table applied to the document', 3000);
+    }
+
+    private _markDirty(webviewVersion: number) {
+        this._editVersion++;
+        this._webviewVersion = webviewVersion;
+        this._setDirty(true);
 
-        const startPos = new vscode.Position(this._tableInfo.startLine, 0);
-        const endPos = new vscode.Position(
-            this._tableInfo.endLine,
-            document.lineAt(this._tableInfo.endLine).text.length
+        if (vscode.workspace.getConfiguration('visualTableCanvas').get<boolean>('liveApply', false)) {
+            if (this._liveApplyTimer !== undefined) {
+                clearTimeout(this._liveApplyTimer);
+            }
+            this._liveApplyTimer = setTimeout(() => {
+                this._liveApplyTimer = undefined;
+                this._applyLive();
+            }, LIVE_APPLY_DELAY);
+        }
+    }
+
+    /**
+     * Writes the grid into the document in live apply mode.
+     * Consecutive edits of the same single cell share one undo stop in the text editor;
+     * any other change starts a new one.
+     */
+    private async _applyLive() {
+        if (this._isDisposed || !this._isDirty) {
+            return;
+        }
+        const changedCell = getSingleChangedCell(this._tableInfo.data, this._currentData);
+        const mergeUndo = changedCell !== undefined && changedCell === this._lastLiveEditCell;
+        this._lastLiveEditCell = changedCell;
+        await this._saveToDocument(this._currentData, this._currentAlignments, this._currentMerges, { mergeUndo });
+    }
+
+    /**
+     * Updates the dirty state and the dirty marker in the panel title
+     */
+    private _setDirty(dirty: boolean) {
+        this._isDirty = dirty;
+        this._updateTitle();
+
+        if (dirty && this._checkpointTimer === undefined && TableEditorPanel.recoveryStore) {
+            this._checkpointTimer = setTimeout(() => {
+                this._checkpointTimer = undefined;
+                this._checkpoint();
+            }, CHECKPOINT_DELAY);
+        } else if (!dirty && this._recoveryKey !== undefined) {
+            TableEditorPanel.recoveryStore?.remove(this._recoveryKey);
+            this._recoveryKey = undefined;
+        }
+    }
+
+    /**
+     * Saves the unsaved edits to the recovery store
+     */
+    private async _checkpoint() {
+        // Checkpoints are found by the table in the document, so a table that is not in it cannot have one
+        const store = TableEditorPanel.recoveryStore;
+        if (!store || !this._isDirty || this._isTableRemoved) {
+            return;
+        }
+        const key = RecoveryStore.getKey(this._documentUri.toString(), this._tableInfo);
+        if (this._recoveryKey !== undefined && this._recoveryKey !== key) {
+            // The table moved
+            await store.remove(this._recoveryKey);
+        }
+        this._recoveryKey = key;
+        await store.save(key, {
+            documentUri: this._documentUri.toString(),
+            identity: getTableIdentity(this._tableInfo),
+            data: this._currentData,
+            alignments: this._currentAlignments,
+            merges: this._currentMerges,
+            caption: this._caption,
+            outputStyle: this._outputStyle,
+            savedAt: Date.now()
+        });
+    }
+
+    /**
+     * Offers to load edits of this table that were checkpointed but never applied, with a diff preview
+     */
+    private async _offerRecovery(entry: RecoveryEntry) {
+        const savedAt = new Date(entry.savedAt).toLocaleString();
+        for (;;) {
+            const result = await vscode.window.showWarningMessage(
+                `${this._describeTable()} has unsaved edits from ${savedAt} that were never applied. Recover them?`,
+                'Recover',
+                'Show Diff',
+                'Discard'
+            );
+            if (this._isDisposed) {
+                return;
+            }
+            if (result === 'Show Diff') {
+                const { serializeTable } = await import('./tableParser');
+                const recoveredText = serializeTable(entry.data, this._tableInfo, entry.outputStyle, {
+                    alignments: entry.alignments,
+                    eol: this._tableInfo.eol,
+                    merges: entry.merges,
+                    caption: entry.caption
+                });
+                await showRecoveryDiff(
+                    this._tableInfo.rawText,
+                    recoveredText,
+                    `${TableEditorPanel._getTitle(this._tableInfo)}: Document \u2194 Recovered Edits`
+                );
+                continue;
+            }
+            if (result === 'Recover') {
+                this._currentData = entry.data;
+                this._currentAlignments = entry.alignments;
+                this._currentMerges = entry.merges;
+                this._caption = entry.caption;
+                this._outputStyle = entry.outputStyle;
+                this._markDirty(this._webviewVersion);
+                this._sendTableData();
+            } else if (result === 'Discard' && this._recoveryKey !== undefined) {
+                await TableEditorPanel.recoveryStore?.remove(this._recoveryKey);
+                this._recoveryKey = undefined;
+            }
+            return;
+        }
+    }
+
+    private _updateTitle() {
+        if (this._isDisposed) {
+            return;
+        }
+        this._panel.title = (this._isDirty ? '\u25cf ' : '') + TableEditorPanel._getTitle(this._tableInfo);
+    }
+
+    /**
+     * Finds the table again after another editor changed the document.
+     * The grid is refreshed when it has no local edits; otherwise the user is asked which side to keep.
+     */
+    private async _onDocumentChanged(event: vscode.TextDocumentChangeEvent) {
+        if (event.document.uri.toString() !== this._documentUri.toString() ||
+            event.contentChanges.length === 0 || this._isApplyingEdit) {
+            return;
+        }
+        // The next live edit must not be undone together with this change
+        this._lastLiveEditCell = undefined;
+
+        const { parseMarkdownTables } = await import('./tableParser');
+        const { findMovedTable, mapLineRange } = await import('./tableLocation');
+        const expected = mapLineRange(this._tableInfo, event.contentChanges.map(change => ({
+            startLine: change.range.start.line,
+            endLine: change.range.end.line,
+            text: change.text
+        })));
+        const table = this._isTableRemoved
+            ? undefined
+            : findMovedTable(parseMarkdownTables(event.document.getText(), getTableParseOptions()), this._tableInfo, expected);
+
+        if (!table) {
+            // Keep the position, so saving can put the table back
+            this._setTableInfo({ ...this._tableInfo, startLine: expected.startLine, endLine: expected.startLine });
+            if (!this._isTableRemoved) {
+                this._isTableRemoved = true;
+                this._onTableRemoved();
+            }
+            return;
+        }
+
+        const previous = this._tableInfo;
+        this._setTableInfo(table);
+        if (table.rawText === previous.rawText) {
+            // Only moved, or changed and changed back
+            return;
+        }
+        if (!this._isDirty && !this._isEditingCell) {
+            this._reloadFromDocument();
+        } else {
+            this._promptConflict();
+        }
+    }
+
+    /**
+     * Asks whether to reload the table from the document, which changed while the grid has unsaved edits
+     */
+    private async _promptConflict() {
+        if (this._isConflictPromptOpen) {
+            return;
+        }
+        this._isConflictPromptOpen = true;
+        const result = await vscode.window.showWarningMessage(
+            `${this._describeTable()} was changed in the document while it has unsaved edits in the Table Editor.`,
+            'Reload from Document',
+            'Keep My Edits'
         );
+        this._isConflictPromptOpen = false;
+        if (result === 'Reload from Document' && !this._isTableRemoved && !this._isDisposed) {
+            this._reloadFromDocument();
+        }
+    }
 
-        edit.replace(this._documentUri, new vscode.Range(startPos, endPos), newMarkdown);
-        await vscode.workspace.applyEdit(edit);
-        await document.save();
+    /**
+     * Follows the table to its current place in the document, moving the panel's key and title along
+     */
+    private _setTableInfo(table: TableInfo) {
+        this._tableInfo = table;
+        const key = TableEditorPanel._getPanelKey(this._documentUri, table);
+        // A closed panel stays out of the registry, even when a save on close moves its table
+        if (key !== this._key && TableEditorPanel.currentPanels.move(this, this._key, key)) {
+            this._key = key;
+        }
+        this._updateTitle();
+        if (!this._isDisposed) {
+            this._panel.webview.postMessage({ type: 'tableIdentity', identity: getTableIdentity(table) } as TableIdentityChanged);
+        }
+    }
 
-        this._isDirty = false;
-        vscode.window.showInformationMessage('Table saved successfully!');
+    private _describeTable(): string {
+        return this._tableInfo.anchor !== undefined
+            ? `Table "${this._tableInfo.anchor}"`
+            : `The table at line ${this._tableInfo.startLine + 1}`;
+    }
+
+    /**
+     * Closes the panel when its table was deleted from the document, unless it has unsaved edits
+     */
+    private async _onTableRemoved() {
+        if (!this._isDirty && !this._isEditingCell) {
+            vscode.window.showInformationMessage(`${this._describeTable()} was removed from the document.`);
+            this._panel.dispose();
+            return;
+        }
+        const result = await vscode.window.showWarningMessage(
+            `${this._describeTable()} was removed from the document. Saving will insert it again.`,
+            'Keep Editing',
+            'Discard and Close'
+        );
+        if (result === 'Discard and Close') {
+            this._setDirty(false);
+            this._panel.dispose();
+        }
+    }
+
+    /**
+     * Replaces the grid with the table as it is in the document, dropping local edits
+     */
+    private _reloadFromDocument() {
+        this._currentData = JSON.parse(JSON.stringify(this._tableInfo.data));
+        this._currentAlignments = [...this._tableInfo.alignments];
+        this._currentMerges = [...this._tableInfo.merges ?? []];
+        this._caption = this._tableInfo.caption?.text;
+        this._setDirty(false);
+        this._sendTableData(true);
+    }
+
+    /**
+     * Reads back the table just written at `startLine`, so the next save replaces the right lines
+     */
+    private async _relocateSavedTable(document: vscode.TextDocument, startLine: number) {
+        const { parseMarkdownTables } = await import('./tableParser');
+        const table = parseMarkdownTables(document.getText(), getTableParseOptions())
+            .find(candidate => candidate.startLine === startLine);
+        if (table) {
+            this._setTableInfo(table);
+            this._isTableRemoved = false;
+        }
     }
 
     private _update() {
         this._panel.webview.html = this._getHtmlForWebview();
     }
 
-    private _sendTableData() {
+    private _sendTableData(reloaded: boolean = false) {
         this._panel.webview.postMessage({
             type: 'tableData',
-            data: this._tableInfo.data,
-            tableIndex: this._tableIndex
+            data: this._currentData,
+            alignments: this._currentAlignments,
+            merges: this._currentMerges,
+            multiMarkdown: this._tableInfo.multiMarkdown ?? false,
+            caption: this._caption ?? '',
+            outputStyle: this._outputStyle,
+            dialect: this._tableInfo.dialect,
+            reloaded,
+            documentUri: this._documentUri.toString(),
+            identity: getTableIdentity(this._tableInfo),
+            modified: this._isDirty,
+            view: this._restoredView
         } as TableData);
+        this._restoredView = undefined;
     }
 
     private _getHtmlForWebview(): string {
         const nonce = getNonce();
+        const webview = this._panel.webview;
+        // Table model shared with the extension (see webviewLibrary.ts)
+        const libraryUri = webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, 'dist', 'webviewLibrary.js'));
 
         return `<!DOCTYPE html>
 <html lang="en">
 <head>
     <meta charset="UTF-8">
-    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src ${webview.cspSource} 'nonce-${nonce}';">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
     <title>Table Editor</title>
     <style>
@@ -289,6 +976,20 @@ export class TableEditorPanel {
         .col-header {
             cursor: pointer;
         }
+        .col-header .align-indicator {
+            margin-left: 4px;
+            font-size: 0.85em;
+            color: var(--vscode-descriptionForeground);
+        }
+        .cell.align-left {
+            text-align: left;
+        }
+        .cell.align-center {
+            text-align: center;
+        }
+        .cell.align-right {
+            text-align: right;
+        }
         .corner-header {
             position: sticky;
             top: 0;
@@ -382,6 +1083,13 @@ export class TableEditorPanel {
         .toolbar-btn:hover {
             background-color: var(--vscode-button-secondaryHoverBackground);
         }
+        .toolbar-btn:disabled {
+            opacity: 0.5;
+            cursor: not-allowed;
+        }
+        .toolbar-right .toolbar-btn {
+            margin-right: 6px;
+        }
         .toolbar-input {
             width: 60px;
             padding: 3px 6px;
@@ -391,10 +1099,39 @@ export class TableEditorPanel {
             border-radius: 3px;
             font-size: 12px;
         }
+        .toolbar-select {
+            padding: 2px 4px;
+            background-color: var(--vscode-dropdown-background);
+            color: var(--vscode-dropdown-foreground);
+            border: 1px solid var(--vscode-dropdown-border);
+            border-radius: 3px;
+            font-size: 12px;
+        }
         .toolbar-label {
             font-size: 12px;
             color: var(--vscode-foreground);
         }
+        /* MultiMarkdown table caption */
+        .caption-bar {
+            padding: 4px 10px;
+            background-color: var(--vscode-editor-background);
+            border-bottom: 1px solid var(--vscode-widget-border);
+            display: flex;
+            align-items: center;
+            gap: 6px;
+        }
+        .caption-bar.hidden {
+            display: none;
+        }
+        .caption-input {
+            flex: 1;
+            padding: 3px 6px;
+            background-color: var(--vscode-input-background);
+            color: var(--vscode-input-foreground);
+            border: 1px solid var(--vscode-input-border);
+            border-radius: 3px;
+            font-size: 12px;
+        }
         .toolbar-separator {
             display: inline-block;
             width: 1px;
@@ -738,6 +1475,13 @@ export class TableEditorPanel {
         .cell.merged-to-below {
             border-bottom-color: transparent;
         }
+        /* Cells spanning columns (HTML colspan) */
+        .cell.merged-from-left {
+            border-left-color: transparent;
+        }
+        .cell.merged-to-right {
+            border-right-color: transparent;
+        }
     </style>
 </head>
 <body>
@@ -752,11 +1496,24 @@ export class TableEditorPanel {
                 <input type="checkbox" id="freeze-first-row-checkbox">
                 <span>Freeze 1st Row</span>
             </label>
+            <span class="toolbar-separator"></span>
+            <span class="toolbar-label">Format:</span>
+            <select class="toolbar-select" id="output-style-select" title="How the table is written on save">
+                <option value="preserve">Preserve</option>
+                <option value="aligned">Aligned</option>
+                <option value="compact">Compact</option>
+            </select>
         </div>
         <div class="toolbar-right">
+            <button class="toolbar-btn" id="export-btn" title="Export the table to a file in another format (CSV, HTML, LaTeX, ...)">Export</button>
+            <button class="toolbar-btn" id="apply-btn" disabled title="Write the table into the document and keep editing (Ctrl+S)">Apply</button>
             <button class="save-btn" id="save-btn" disabled>Save & Close</button>
         </div>
     </div>
+    <div class="caption-bar hidden" id="caption-bar">
+        <span class="toolbar-label">Caption:</span>
+        <input type="text" class="caption-input" id="caption-input" placeholder="No caption" title="MultiMarkdown [Caption] line">
+    </div>
     <div class="table-container" id="table-container" tabindex="0" style="outline: none;">
         <table id="table-grid">
             <thead id="table-header"></thead>
@@ -815,10 +1572,15 @@ export class TableEditorPanel {
         </div>
     </div>
     
+    <script nonce="${nonce}" src="${libraryUri}"></script>
     <script nonce="${nonce}">
         const vscode = acquireVsCodeApi();
         
         let tableData = [];
+        let columnAlignments = []; // 'none' | 'left' | 'center' | 'right' per column
+        let cellMerges = []; // { row, col, rowSpan, colSpan } per merged region (HTML colspan/rowspan)
+        let documentUri = '';
+        let tableIdentity = null; // { anchor, fingerprint, startLine } of the table in the document
         let isEditing = false;
         let isDragging = false;
         let freezeFirstRow = false;
@@ -837,10 +1599,23 @@ export class TableEditorPanel {
         const redoStack = [];
         const MAX_UNDO_STACK = 50;
         
+        function takeSnapshot() {
+            // Deep copy of tableData and column alignments
+            return {
+                data: tableData.map(row => [...row]),
+                alignments: [...columnAlignments],
+                merges: cellMerges.map(merge => ({ ...merge }))
+            };
+        }
+        
+        function restoreSnapshot(snapshot) {
+            tableData = snapshot.data;
+            columnAlignments = snapshot.alignments;
+            cellMerges = snapshot.merges;
+        }
+        
         function saveUndoState() {
-            // Deep copy of tableData
-            const snapshot = tableData.map(row => [...row]);
-            undoStack.push(snapshot);
+            undoStack.push(takeSnapshot());
             if (undoStack.length > MAX_UNDO_STACK) {
                 undoStack.shift();
             }
@@ -854,8 +1629,8 @@ export class TableEditorPanel {
                 return;
             }
             // Save current state to redo stack
-            redoStack.push(tableData.map(row => [...row]));
-            tableData = undoStack.pop();
+            redoStack.push(takeSnapshot());
+            restoreSnapshot(undoStack.pop());
             notifyChange();
             renderTable();
             updateStatus('Undo');
@@ -867,8 +1642,8 @@ export class TableEditorPanel {
                 return;
             }
             // Save current state to undo stack
-            undoStack.push(tableData.map(row => [...row]));
-            tableData = redoStack.pop();
+            undoStack.push(takeSnapshot());
+            restoreSnapshot(redoStack.pop());
             notifyChange();
             renderTable();
             updateStatus('Redo');
@@ -1185,9 +1960,61 @@ export class TableEditorPanel {
             const message = event.data;
             try {
                 if (message.type === 'tableData') {
+                    if (message.reloaded) {
+                        // The document changed: drop the cell being edited and the undo history of the old data
+                        const editingCell = document.querySelector('.cell.editing');
+                        if (editingCell) {
+                            cancelEditing(editingCell);
+                        }
+                        undoStack.length = 0;
+                        redoStack.length = 0;
+                        clampSelection(message.data);
+                        setModified(false);
+                    }
                     tableData = message.data;
+                    columnAlignments = message.alignments || [];
+                    cellMerges = message.merges || [];
+                    documentUri = message.documentUri;
+                    tableIdentity = message.identity;
+                    if (message.view) {
+                        // Restored after a window reload
+                        zoomLevel = message.view.zoomLevel;
+                        freezeFirstRow = message.view.freezeFirstRow;
+                        document.getElementById('freeze-first-row-checkbox').checked = freezeFirstRow;
+                        document.getElementById('max-width-input').value = message.view.maxColumnWidth;
+                        selection = message.view.selection;
+                        clampSelection(message.data);
+                    }
+                    if (message.modified) {
+                        setModified(true);
+                    }
+                    // MultiMarkdown tables can have a [Caption] line
+                    document.getElementById('caption-bar').classList.toggle('hidden', !message.multiMarkdown);
+                    document.getElementById('caption-input').value = message.caption || '';
+                    const outputStyleSelect = document.getElementById('output-style-select');
+                    outputStyleSelect.value = message.outputStyle || 'preserve';
+                    // Grid, simple and HTML tables are always written in their own layout
+                    if (message.dialect && message.dialect !== 'pipe') {
+                        outputStyleSelect.disabled = true;
+                        outputStyleSelect.title = 'Output style applies to pipe tables only';
+                    }
                     renderTable();
-                    updateStatus('Ready');
+                    if (message.view) {
+                        updateSelectionDisplay();
+                        applyZoom();
+                        updateZoomUI();
+                    }
+                    persistState();
+                    updateStatus(message.reloaded ? 'Reloaded: the table was changed in the document' : 'Ready');
+                } else if (message.type === 'tableIdentity') {
+                    tableIdentity = message.identity;
+                    persistState();
+                } else if (message.type === 'applied') {
+                    // Edits made while the table was being applied still need applying
+                    if (message.version === changeVersion) {
+                        setModified(false);
+                    }
+                    updateStatus('Applied to document');
                 }
             } catch (e) {
                 console.error('Error handling message:', e);
@@ -1195,6 +2022,25 @@ export class TableEditorPanel {
             }
         });
         
+        // Keeps the selection inside a table whose size changed
+        function clampSelection(data) {
+            const rowCount = data.length;
+            const columnCount = Math.max(0, ...data.map(row => row.length));
+            if (selection.activeRow < 0) {
+                return;
+            }
+            if (rowCount === 0 || columnCount === 0) {
+                selection = { startRow: -1, startCol: -1, endRow: -1, endCol: -1, activeRow: -1, activeCol: -1, type: 'cell' };
+                return;
+            }
+            for (const key of ['startRow', 'endRow', 'activeRow']) {
+                selection[key] = Math.min(selection[key], rowCount - 1);
+            }
+            for (const key of ['startCol', 'endCol', 'activeCol']) {
+                selection[key] = Math.min(selection[key], columnCount - 1);
+            }
+        }
+        
         function renderTable() {
             const headerRow = document.getElementById('table-header');
             const tableBody = document.getElementById('table-body');
@@ -1209,7 +2055,7 @@ export class TableEditorPanel {
             
             let headerHtml = '<tr><th class="corner-header"></th>';
             for (let col = 0; col < columnCount; col++) {
-                headerHtml += '<th class="col-header" data-col="' + col + '">' + getColumnName(col) + '</th>';
+                headerHtml += '<th class="col-header" data-col="' + col + '" title="' + getAlignmentLabel(getAlignment(col)) + '">' + getColumnName(col) + getAlignmentIndicator(getAlignment(col)) + '</th>';
             }
             headerHtml += '</tr>';
             headerRow.innerHTML = headerHtml;
@@ -1231,15 +2077,22 @@ export class TableEditorPanel {
                     const nextRowValue = (row < tableData.length - 1) ? (tableData[row + 1][col] || '') : '';
                     const isMergedToBelow = nextRowValue.trim() === '^';
                     
+                    // Explicit merges (colspan/rowspan): only the top-left cell shows its value
+                    const merge = findMerge(row, col);
+                    const isCoveredByMerge = merge !== undefined && (row !== merge.row || col !== merge.col);
+                    
                     // Build cell classes
                     let cellClasses = 'cell';
-                    if (isMergedFromAbove) cellClasses += ' merged-from-above';
-                    if (isMergedToBelow) cellClasses += ' merged-to-below';
+                    if (getAlignment(col) !== 'none') cellClasses += ' align-' + getAlignment(col);
+                    if (isMergedFromAbove || (merge && row > merge.row)) cellClasses += ' merged-from-above';
+                    if (isMergedToBelow || (merge && row < merge.row + merge.rowSpan - 1)) cellClasses += ' merged-to-below';
+                    if (merge && col > merge.col) cellClasses += ' merged-from-left';
+                    if (merge && col < merge.col + merge.colSpan - 1) cellClasses += ' merged-to-right';
                     
                     // Determine display value
                     let displayValue;
-                    if (isMergedFromAbove) {
-                        // ^ with parent above: show empty
+                    if (isMergedFromAbove || isCoveredByMerge) {
+                        // ^ with parent above, or covered by a merged cell: show empty
                         displayValue = '';
                     } else if (trimmedValue === '\\^') {
                         // Escaped ^: show as ^
@@ -1296,6 +2149,60 @@ export class TableEditorPanel {
             return name;
         }
         
+        function getAlignment(col) {
+            return columnAlignments[col] || 'none';
+        }
+        
+        function getAlignmentIndicator(alignment) {
+            switch (alignment) {
+                case 'left': return '<span class="align-indicator">\u21e4</span>'; // ⇤
+                case 'center': return '<span class="align-indicator">\u2194</span>'; // ↔
+                case 'right': return '<span class="align-indicator">\u21e5</span>'; // ⇥
+                default: return '';
+            }
+        }
+        
+        function getAlignmentLabel(alignment) {
+            switch (alignment) {
+                case 'left': return 'Aligned left';
+                case 'center': return 'Aligned center';
+                case 'right': return 'Aligned right';
+                default: return 'Default alignment';
+            }
+        }
+        
+        // Returns the merged cell covering a cell, if any
+        function findMerge(row, col) {
+            return cellMerges.find(merge =>
+                row >= merge.row && row < merge.row + merge.rowSpan &&
+                col >= merge.col && col < merge.col + merge.colSpan);
+        }
+        
+        // Runs a structural operation on the shared Table model and takes over its result,
+        // so that cells and column alignments always change together
+        function withTable(operation) {
+            const table = VisualTableCanvas.Table.fromData(tableData, columnAlignments, cellMerges);
+            operation(table);
+            tableData = table.toData();
+            columnAlignments = [...table.alignments];
+            cellMerges = table.merges.map(merge => ({ ...merge }));
+        }
+        
+        function setColumnAlignment(minCol, maxCol, alignment) {
+            saveUndoState();
+            withTable(table => table.setAlignment(minCol, alignment, maxCol - minCol + 1));
+            notifyChange();
+            renderTable();
+            selection = {
+                startRow: 0, startCol: minCol,
+                endRow: tableData.length - 1, endCol: maxCol,
+                activeRow: 0, activeCol: minCol,
+                type: 'column'
+            };
+            updateSelectionDisplay();
+            updateStatus(getAlignmentLabel(alignment));
+        }
+        
         function getColumnHeaderHeight() {
             const headerRow = document.querySelector('#table-header th');
             return headerRow ? headerRow.offsetHeight : 28;
@@ -1487,6 +2394,7 @@ export class TableEditorPanel {
             }
             
             updateStatusFromSelection();
+            persistState();
         }
         
         function updateStatusFromSelection() {
@@ -1607,72 +2515,8 @@ export class TableEditorPanel {
         function tsvToCells(tsv) {
             if (!tsv || tsv.trim() === '') return null;
             
-            const result = [];
-            let currentRow = [];
-            let currentCell = '';
-            let inQuotes = false;
-            let i = 0;
-            
-            while (i < tsv.length) {
-                const char = tsv[i];
-                const nextChar = tsv[i + 1];
-                
-                if (inQuotes) {
-                    if (char === '"') {
-                        if (nextChar === '"') {
-                            // Escaped quote
-                            currentCell += '"';
-                            i += 2;
-                            continue;
-                        } else {
-                            // End of quoted field
-                            inQuotes = false;
-                            i++;
-                            continue;
-                        }
-                    } else {
-                        currentCell += char;
-                        i++;
-                    }
-                } else {
-                    if (char === '"' && currentCell === '') {
-                        // Start of quoted field
-                        inQuotes = true;
-                        i++;
-                    } else if (char === '\\t') {
-                        // Tab - end of cell
-                        currentRow.push(currentCell.replace(/\\n/g, '<br>'));
-                        currentCell = '';
-                        i++;
-                    } else if (char === '\\r' && nextChar === '\\n') {
-                        // CRLF - end of row
-                        currentRow.push(currentCell.replace(/\\n/g, '<br>'));
-                        if (currentRow.length > 0) result.push(currentRow);
-                        currentRow = [];
-                        currentCell = '';
-                        i += 2;
-                    } else if (char === '\\n') {
-                        // LF - end of row
-                        currentRow.push(currentCell.replace(/\\n/g, '<br>'));
-                        if (currentRow.length > 0) result.push(currentRow);
-                        currentRow = [];
-                        currentCell = '';
-                        i++;
-                    } else {
-                        currentCell += char;
-                        i++;
-                    }
-                }
-            }
-            
-            // Handle last cell and row
-            if (currentCell !== '' || currentRow.length > 0) {
-                currentRow.push(currentCell.replace(/\\n/g, '<br>'));
-                if (currentRow.length > 0 && !(currentRow.length === 1 && currentRow[0] === '')) {
-                    result.push(currentRow);
-                }
-            }
-            
+            // Same parser as CSV/TSV import (see delimitedText.ts)
+            const result = VisualTableCanvas.splitDelimitedText(tsv, '\\t');
             return result.length > 0 ? result : null;
         }
         
@@ -1718,7 +2562,7 @@ export class TableEditorPanel {
         function startEditing(cell) {
             if (isEditing) return;
             
-            isEditing = true;
+            setEditing(true);
             cell.classList.add('editing');
             
             const row = parseInt(cell.dataset.row);
@@ -1789,7 +2633,7 @@ export class TableEditorPanel {
         function startEditingWithValue(cell, initialValue) {
             if (isEditing) return;
             
-            isEditing = true;
+            setEditing(true);
             cell.classList.add('editing');
             
             const row = parseInt(cell.dataset.row);
@@ -1874,14 +2718,14 @@ export class TableEditorPanel {
             
             if (isMergeRelated || hasAboveMerge || hasBelowMerge) {
                 // Full re-render needed for merge border updates
-                isEditing = false;
+                setEditing(false);
                 renderTable();
                 // Re-select the cell
                 selectSingleCell(row, col);
             } else {
                 cell.classList.remove('editing');
                 cell.innerHTML = renderMarkdown(newValue);
-                isEditing = false;
+                setEditing(false);
             }
             
             notifyChange();
@@ -1898,11 +2742,17 @@ export class TableEditorPanel {
             
             cell.classList.remove('editing');
             cell.innerHTML = renderMarkdown(value);
-            isEditing = false;
+            setEditing(false);
             
             updateStatus('Ready');
         }
         
+        // The extension treats a cell being edited as a local edit when the document changes
+        function setEditing(editing) {
+            isEditing = editing;
+            vscode.postMessage({ type: 'editingChanged', editing });
+        }
+        
         function updateStatus(message) {
             document.getElementById('status-bar').textContent = message;
         }
@@ -2007,6 +2857,14 @@ export class TableEditorPanel {
         }
         
         document.addEventListener('keydown', (e) => {
+            // Ctrl+S applies the table to the document, also while a cell is being edited
+            if ((e.ctrlKey || e.metaKey) && e.key === 's') {
+                applyChanges();
+                e.preventDefault();
+                e.stopPropagation();
+                return;
+            }
+            
             // Handle Ctrl+F and Ctrl+H for find/replace (works even when find dialog has focus)
             if ((e.ctrlKey || e.metaKey) && e.key === 'f') {
                 openFindDialog(false);
@@ -2141,6 +2999,7 @@ export class TableEditorPanel {
         
         document.addEventListener('keydown', (e) => {
             if (isEditing) return;
+            if (e.target.tagName === 'INPUT') return;
             
             // Calculate selection bounds for row/column operations
             const minRow = Math.min(selection.startRow, selection.endRow);
@@ -2154,10 +3013,7 @@ export class TableEditorPanel {
                     // Insert rows above selection
                     const count = maxRow - minRow + 1;
                     saveUndoState();
-                    for (let i = 0; i < count; i++) {
-                        const newRow = new Array(tableData[0].length).fill('');
-                        tableData.splice(minRow, 0, newRow);
-                    }
+                    withTable(table => table.insertRows(minRow, count));
                     notifyChange();
                     renderTable();
                     // Maintain row selection on inserted rows for repeated operations
@@ -2177,11 +3033,7 @@ export class TableEditorPanel {
                     // Insert columns to the left of selection
                     const count = maxCol - minCol + 1;
                     saveUndoState();
-                    for (let r = 0; r < tableData.length; r++) {
-                        for (let i = 0; i < count; i++) {
-                            tableData[r].splice(minCol, 0, '');
-                        }
-                    }
+                    withTable(table => table.insertColumns(minCol, count));
                     notifyChange();
                     renderTable();
                     // Maintain column selection on inserted columns for repeated operations
@@ -2210,7 +3062,7 @@ export class TableEditorPanel {
                         return;
                     }
                     saveUndoState();
-                    tableData.splice(minRow, count);
+                    withTable(table => table.deleteRows(minRow, count));
                     notifyChange();
                     renderTable();
                     selectSingleCell(Math.min(minRow, tableData.length - 1), 0);
@@ -2228,9 +3080,7 @@ export class TableEditorPanel {
                         return;
                     }
                     saveUndoState();
-                    for (let r = 0; r < tableData.length; r++) {
-                        tableData[r].splice(minCol, count);
-                    }
+                    withTable(table => table.deleteColumns(minCol, count));
                     notifyChange();
                     renderTable();
                     selectSingleCell(0, Math.min(minCol, tableData[0].length - 1));
@@ -2372,19 +3222,8 @@ export class TableEditorPanel {
                 // Single row selected + multiple rows copied -> paste from start point (auto-expand)
                 else if (selRowCount === 1) {
                     saveUndoState();
-                    
                     // Auto-expand rows if needed
-                    const requiredRows = minRow + copyRowCount;
-                    while (tableData.length < requiredRows) {
-                        const newRow = new Array(tableData[0].length).fill('');
-                        tableData.push(newRow);
-                    }
-                    
-                    for (let i = 0; i < copyRowCount && (minRow + i) < tableData.length; i++) {
-                        for (let c = 0; c < copiedRows[i].length && c < tableData[minRow + i].length; c++) {
-                            tableData[minRow + i][c] = copiedRows[i][c];
-                        }
-                    }
+                    withTable(table => table.ensureSize(minRow + copyRowCount, table.columnCount).setCells(minRow, 0, copiedRows));
                     notifyChange();
                     renderTable();
                     updateStatus('Pasted ' + copyRowCount + ' row(s)');
@@ -2428,24 +3267,11 @@ export class TableEditorPanel {
                 // Single column selected + multiple columns copied -> paste from start point (auto-expand)
                 else if (selColCount === 1) {
                     saveUndoState();
-                    
                     // Auto-expand columns if needed
-                    const requiredCols = minCol + copyColCount;
-                    const currentCols = tableData[0].length;
-                    if (currentCols < requiredCols) {
-                        const colsToAdd = requiredCols - currentCols;
-                        for (let row of tableData) {
-                            for (let i = 0; i < colsToAdd; i++) {
-                                row.push('');
-                            }
-                        }
-                    }
-                    
-                    for (let i = 0; i < copyColCount && (minCol + i) < tableData[0].length; i++) {
-                        for (let r = 0; r < copiedCols[i].length && r < tableData.length; r++) {
-                            tableData[r][minCol + i] = copiedCols[i][r];
-                        }
-                    }
+                    withTable(table => {
+                        table.ensureSize(table.rowCount, minCol + copyColCount);
+                        copiedCols.forEach((column, i) => table.setCells(0, minCol + i, column.map(value => [value])));
+                    });
                     notifyChange();
                     renderTable();
                     updateStatus('Pasted ' + copyColCount + ' column(s)');
@@ -2506,38 +3332,11 @@ export class TableEditorPanel {
                 // Single cell selected + multiple cells copied -> paste from start point (auto-expand)
                 else if (selRows === 1 && selCols === 1) {
                     saveUndoState();
-                    
-                    // Calculate required size
-                    const requiredRows = minRow + copiedCellsRows;
-                    const requiredCols = minCol + copiedCellsCols;
-                    
-                    // Auto-expand rows if needed
-                    while (tableData.length < requiredRows) {
-                        const newRow = new Array(tableData[0].length).fill('');
-                        tableData.push(newRow);
-                    }
-                    
-                    // Auto-expand columns if needed
-                    const currentCols = tableData[0].length;
-                    if (currentCols < requiredCols) {
-                        const colsToAdd = requiredCols - currentCols;
-                        for (let row of tableData) {
-                            for (let i = 0; i < colsToAdd; i++) {
-                                row.push('');
-                            }
-                        }
-                    }
-                    
-                    // Now paste the data
-                    for (let r = 0; r < copiedCellsRows; r++) {
-                        for (let c = 0; c < copiedCellsCols; c++) {
-                            const targetRow = minRow + r;
-                            const targetCol = minCol + c;
-                            if (targetRow < tableData.length && targetCol < tableData[0].length) {
-                                tableData[targetRow][targetCol] = copiedCells[r][c];
-                            }
-                        }
-                    }
+                    // Auto-expand to fit the copied cells, then paste them
+                    withTable(table => {
+                        table.ensureSize(minRow + copiedCellsRows, minCol + copiedCellsCols);
+                        table.setCells(minRow, minCol, copiedCells);
+                    });
                     notifyChange();
                     renderTable();
                     updateStatus('Pasted ' + copiedCellsRows + 'x' + copiedCellsCols + ' cells');
@@ -2585,40 +3384,14 @@ export class TableEditorPanel {
             
             saveUndoState();
             
-            // Single cell selected -> paste from start point (auto-expand)
-            if (selRows === 1 && selCols === 1) {
-                // Calculate required size
-                const requiredRows = minRow + pasteRows;
-                const requiredCols = minCol + pasteCols;
-                
-                // Auto-expand rows if needed
-                while (tableData.length < requiredRows) {
-                    const newRow = new Array(tableData[0].length).fill('');
-                    tableData.push(newRow);
-                }
-                
-                // Auto-expand columns if needed
-                const currentCols = tableData[0].length;
-                if (currentCols < requiredCols) {
-                    const colsToAdd = requiredCols - currentCols;
-                    for (let row of tableData) {
-                        for (let i = 0; i < colsToAdd; i++) {
-                            row.push('');
-                        }
-                    }
-                }
-            }
-            
-            // Paste the data
-            for (let r = 0; r < pasteRows; r++) {
-                for (let c = 0; c < (cells[r]?.length || 0); c++) {
-                    const targetRow = minRow + r;
-                    const targetCol = minCol + c;
-                    if (targetRow < tableData.length && targetCol < tableData[0].length) {
-                        tableData[targetRow][targetCol] = cells[r][c];
-                    }
+            withTable(table => {
+                // Single cell selected -> paste from start point (auto-expand)
+                if (selRows === 1 && selCols === 1) {
+                    table.ensureSize(minRow + pasteRows, minCol + pasteCols);
                 }
-            }
+                // Paste the data (cells outside the table are dropped)
+                table.setCells(minRow, minCol, cells);
+            });
             
             notifyChange();
             renderTable();
@@ -2762,6 +3535,12 @@ export class TableEditorPanel {
                 items.push({ label: 'Insert Copied Column(s)', action: 'pasteCols', disabled: !(copiedCols && copiedCols.length > 0) });
             }
             
+            items.push({ separator: true });
+            items.push({ label: 'Align Left', action: 'alignLeft' });
+            items.push({ label: 'Align Center', action: 'alignCenter' });
+            items.push({ label: 'Align Right', action: 'alignRight' });
+            items.push({ label: 'Clear Alignment', action: 'alignNone' });
+            
             showContextMenu(event.clientX, event.clientY, items);
         }
         
@@ -2773,9 +3552,11 @@ export class TableEditorPanel {
             
             switch (action) {
                 case 'deleteRows':
-                    if (tableData.length > 1) {
+                    if (maxRow - minRow + 1 >= tableData.length) {
+                        updateStatus('Cannot delete all rows');
+                    } else {
                         saveUndoState();
-                        tableData.splice(minRow, maxRow - minRow + 1);
+                        withTable(table => table.deleteRows(minRow, maxRow - minRow + 1));
                         notifyChange();
                         renderTable();
                         selectSingleCell(Math.min(minRow, tableData.length - 1), 0);
@@ -2784,10 +3565,7 @@ export class TableEditorPanel {
                 case 'insertRowAbove':
                     showInsertDialog('Insert Rows Above', 'row', 10, (count) => {
                         saveUndoState();
-                        for (let i = 0; i < count; i++) {
-                            const newRow = new Array(tableData[0].length).fill('');
-                            tableData.splice(minRow, 0, newRow);
-                        }
+                        withTable(table => table.insertRows(minRow, count));
                         notifyChange();
                         renderTable();
                         selectSingleCell(minRow, 0);
@@ -2796,10 +3574,7 @@ export class TableEditorPanel {
                 case 'insertRowBelow':
                     showInsertDialog('Insert Rows Below', 'row', 10, (count) => {
                         saveUndoState();
-                        for (let i = 0; i < count; i++) {
-                            const newRow = new Array(tableData[0].length).fill('');
-                            tableData.splice(maxRow + 1 + i, 0, newRow);
-                        }
+                        withTable(table => table.insertRows(maxRow + 1, count));
                         notifyChange();
                         renderTable();
                         selectSingleCell(maxRow + 1, 0);
@@ -2808,20 +3583,18 @@ export class TableEditorPanel {
                 case 'pasteRows':
                     if (copiedRows && copiedRows.length > 0) {
                         saveUndoState();
-                        for (let i = 0; i < copiedRows.length; i++) {
-                            tableData.splice(maxRow + 1 + i, 0, [...copiedRows[i]]);
-                        }
+                        withTable(table => table.insertRows(maxRow + 1, copiedRows.length, copiedRows));
                         notifyChange();
                         renderTable();
                         selectSingleCell(maxRow + 1, 0);
                     }
                     break;
                 case 'deleteCols':
-                    if (tableData[0].length > 1) {
+                    if (maxCol - minCol + 1 >= tableData[0].length) {
+                        updateStatus('Cannot delete all columns');
+                    } else {
                         saveUndoState();
-                        for (let r = 0; r < tableData.length; r++) {
-                            tableData[r].splice(minCol, maxCol - minCol + 1);
-                        }
+                        withTable(table => table.deleteColumns(minCol, maxCol - minCol + 1));
                         notifyChange();
                         renderTable();
                         selectSingleCell(0, Math.min(minCol, tableData[0].length - 1));
@@ -2830,11 +3603,7 @@ export class TableEditorPanel {
                 case 'insertColLeft':
                     showInsertDialog('Insert Columns Left', 'column', 10, (count) => {
                         saveUndoState();
-                        for (let r = 0; r < tableData.length; r++) {
-                            for (let i = 0; i < count; i++) {
-                                tableData[r].splice(minCol, 0, '');
-                            }
-                        }
+                        withTable(table => table.insertColumns(minCol, count));
                         notifyChange();
                         renderTable();
                         selectSingleCell(0, minCol);
@@ -2843,11 +3612,7 @@ export class TableEditorPanel {
                 case 'insertColRight':
                     showInsertDialog('Insert Columns Right', 'column', 10, (count) => {
                         saveUndoState();
-                        for (let r = 0; r < tableData.length; r++) {
-                            for (let i = 0; i < count; i++) {
-                                tableData[r].splice(maxCol + 1 + i, 0, '');
-                            }
-                        }
+                        withTable(table => table.insertColumns(maxCol + 1, count));
                         notifyChange();
                         renderTable();
                         selectSingleCell(0, maxCol + 1);
@@ -2856,16 +3621,24 @@ export class TableEditorPanel {
                 case 'pasteCols':
                     if (copiedCols && copiedCols.length > 0) {
                         saveUndoState();
-                        for (let i = 0; i < copiedCols.length; i++) {
-                            for (let r = 0; r < tableData.length; r++) {
-                                tableData[r].splice(maxCol + 1 + i, 0, copiedCols[i][r] || '');
-                            }
-                        }
+                        withTable(table => table.insertColumns(maxCol + 1, copiedCols.length, copiedCols));
                         notifyChange();
                         renderTable();
                         selectSingleCell(0, maxCol + 1);
                     }
                     break;
+                case 'alignLeft':
+                    setColumnAlignment(minCol, maxCol, 'left');
+                    break;
+                case 'alignCenter':
+                    setColumnAlignment(minCol, maxCol, 'center');
+                    break;
+                case 'alignRight':
+                    setColumnAlignment(minCol, maxCol, 'right');
+                    break;
+                case 'alignNone':
+                    setColumnAlignment(minCol, maxCol, 'none');
+                    break;
             }
         }
         
@@ -2901,13 +3674,69 @@ export class TableEditorPanel {
         });
         
         function notifyChange() {
-            vscode.postMessage({ type: 'updateTable', data: tableData });
-            document.getElementById('save-btn').disabled = false;
+            setModified(true);
+            vscode.postMessage({ type: 'updateTable', data: tableData, alignments: columnAlignments, merges: cellMerges, version: changeVersion });
+        }
+        
+        // Counts changes, to tell whether an apply included the latest one
+        let changeVersion = 0;
+        
+        function setModified(modified) {
+            if (modified) {
+                changeVersion++;
+            }
+            document.getElementById('apply-btn').disabled = !modified;
+            document.getElementById('save-btn').disabled = !modified;
+            persistState();
         }
         
+        // Saved with the panel, so that it can be restored after a window reload (see TableEditorSerializer)
+        function persistState() {
+            if (!documentUri) {
+                return;
+            }
+            const outputStyleSelect = document.getElementById('output-style-select');
+            vscode.setState({
+                documentUri,
+                identity: tableIdentity,
+                data: tableData,
+                alignments: columnAlignments,
+                merges: cellMerges,
+                caption: document.getElementById('caption-input').value,
+                outputStyle: outputStyleSelect.value,
+                modified: !document.getElementById('save-btn').disabled,
+                view: {
+                    selection,
+                    zoomLevel,
+                    freezeFirstRow,
+                    maxColumnWidth: parseInt(document.getElementById('max-width-input').value) || 300
+                }
+            });
+        }
+        
+        // Writes the table into the document without closing the editor
+        function applyChanges() {
+            const editingCell = document.querySelector('.cell.editing');
+            if (editingCell) {
+                finishEditing(editingCell, editingCell.querySelector('textarea').value);
+            }
+            vscode.postMessage({ type: 'apply', data: tableData, alignments: columnAlignments, merges: cellMerges, version: changeVersion });
+        }
+        
+        document.getElementById('apply-btn').addEventListener('click', applyChanges);
+        
+        // Export button handler
+        document.getElementById('export-btn').addEventListener('click', () => {
+            const editingCell = document.querySelector('.cell.editing');
+            if (editingCell) {
+                finishEditing(editingCell, editingCell.querySelector('textarea').value);
+            }
+            vscode.postMessage({ type: 'exportTable', data: tableData, alignments: columnAlignments, merges: cellMerges });
+        });
+        
         // Save button handler
         document.getElementById('save-btn').addEventListener('click', () => {
-            vscode.postMessage({ type: 'saveAndClose', data: tableData });
+            vscode.postMessage({ type: 'saveAndClose', data: tableData, alignments: columnAlignments, merges: cellMerges });
         });
         
         // Auto-fit column widths
@@ -2983,6 +3812,8 @@ export class TableEditorPanel {
             }
         }
         
+        document.getElementById('max-width-input').addEventListener('change', persistState);
+        
         // Auto Width button handler
         document.getElementById('auto-width-btn').addEventListener('click', () => {
             autoFitColumnWidths();
@@ -2993,9 +3824,22 @@ export class TableEditorPanel {
         document.getElementById('freeze-first-row-checkbox').addEventListener('change', (e) => {
             freezeFirstRow = e.target.checked;
             renderTable();
+            persistState();
             updateStatus(freezeFirstRow ? 'First row frozen' : 'First row unfrozen');
         });
         
+        // Output style selector: how the table is written on save
+        document.getElementById('output-style-select').addEventListener('change', (e) => {
+            setModified(true);
+            vscode.postMessage({ type: 'setOutputStyle', outputStyle: e.target.value, version: changeVersion });
+            updateStatus('Format: ' + e.target.options[e.target.selectedIndex].text);
+        });
+        
+        document.getElementById('caption-input').addEventListener('input', (e) => {
+            setModified(true);
+            vscode.postMessage({ type: 'setCaption', caption: e.target.value, version: changeVersion });
+        });
+        
         // Zoom controls
         function applyZoom() {
             const table = document.getElementById('table-grid');
@@ -3013,6 +3857,7 @@ export class TableEditorPanel {
             document.getElementById('zoom-percent').textContent = zoomLevel + '%';
             document.getElementById('zoom-out-btn').disabled = zoomLevel <= 50;
             document.getElementById('zoom-in-btn').disabled = zoomLevel >= 200;
+            persistState();
         }
         
         document.getElementById('zoom-slider').addEventListener('input', (e) => {
@@ -3042,6 +3887,41 @@ export class TableEditorPanel {
     }
 }
 
+/**
+ * Restores Table Editor panels when VS Code restarts or the window is reloaded
+ */
+export class TableEditorSerializer implements vscode.WebviewPanelSerializer<TableEditorState> {
+    constructor(private readonly _extensionUri: vscode.Uri) {}
+
+    public async deserializeWebviewPanel(panel: vscode.WebviewPanel, state: TableEditorState | undefined): Promise<void> {
+        await TableEditorPanel.revive(panel, this._extensionUri, state);
+    }
+}
+
+/**
+ * Returns `row:col` of the only cell that differs between two tables of the same size, if exactly one does
+ */
+function getSingleChangedCell(before: string[][], after: string[][]): string | undefined {
+    if (before.length !== after.length) {
+        return undefined;
+    }
+    let changed: string | undefined;
+    for (let row = 0; row < after.length; row++) {
+        if (before[row].length !== after[row].length) {
+            return undefined;
+        }
+        for (let col = 0; col < after[row].length; col++) {
+            if (before[row][col] !== after[row][col]) {
+                if (changed !== undefined) {
+                    return undefined;
+                }
+                changed = `${row}:${col}`;
+            }
+        }
+    }
+    return changed;
+}
+
 function getNonce(): string {
     let text = '';
     const possible = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
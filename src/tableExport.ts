@@ -0,0 +1,177 @@
+import { htmlTableDialect } from './htmlTable';
+import { escapeHtml, InlineMarkdownMode, markdownToHtml, markdownToPlainText } from './inlineMarkdown';
+import { tableToAsciiDoc, tableToConfluence, tableToLatex, tableToRstGridTable, tableToRstListTable } from './tableMarkup';
+import { CellMerge, Table } from './tableModel';
+import type { ColumnAlignment } from './tableParser';
+
+/**
+ * File formats a table can be exported to
+ */
+export type ExportFormat = 'csv' | 'tsv' | 'json' | 'html' | 'latex' | 'booktabs' | 'asciidoc' | 'rst' | 'rstGrid' | 'confluence';
+
+/**
+ * Description and file extension of each export format
+ */
+export const EXPORT_FORMATS: Readonly<Record<ExportFormat, { label: string; extension: string }>> = {
+    csv: { label: 'CSV', extension: 'csv' },
+    tsv: { label: 'TSV', extension: 'tsv' },
+    json: { label: 'JSON', extension: 'json' },
+    html: { label: 'HTML', extension: 'html' },
+    latex: { label: 'LaTeX (tabular)', extension: 'tex' },
+    booktabs: { label: 'LaTeX (booktabs)', extension: 'tex' },
+    asciidoc: { label: 'AsciiDoc', extension: 'adoc' },
+    rst: { label: 'reStructuredText (list-table)', extension: 'rst' },
+    rstGrid: { label: 'reStructuredText (grid table)', extension: 'rst' },
+    confluence: { label: 'Confluence Wiki Markup', extension: 'txt' }
+};
+
+/**
+ * Options for exporting a table
+ */
+export interface TableExportOptions {
+    /** Column alignments, written to the formats that support them (missing entries are 'none') */
+    alignments?: ColumnAlignment[];
+    /** Merged cells, written as row and column spans where the format supports them */
+    merges?: CellMerge[];
+    /** Number of header rows (defaults to 1); JSON objects are keyed by the first one */
+    headerRowCount?: number;
+    /** Treatment of inline Markdown in cells (defaults to 'keep') */
+    inlineMarkdown?: InlineMarkdownMode;
+    /** Table caption, written where the format supports one */
+    caption?: string;
+    /** Title of the HTML document */
+    title?: string;
+}
+
+/**
+ * Converts a cell for a text format (CSV, TSV, JSON)
+ */
+function toText(cell: string, mode: InlineMarkdownMode): string {
+    switch (mode) {
+        case 'plain':
+            return markdownToPlainText(cell);
+        case 'html':
+            return markdownToHtml(cell);
+        default:
+            return cell;
+    }
+}
+
+/**
+ * Converts a cell for HTML output; kept Markdown is shown as text, apart from its `<br>` line breaks
+ */
+function toHtml(cell: string, mode: InlineMarkdownMode): string {
+    switch (mode) {
+        case 'plain':
+            return escapeHtml(markdownToPlainText(cell)).replace(/\n/g, '<br>');
+        case 'html':
+            return markdownToHtml(cell);
+        default:
+            return escapeHtml(cell).replace(/&lt;br\s*\/?&gt;/gi, '<br>');
+    }
+}
+
+/**
+ * Writes rows as CSV (RFC 4180): fields containing commas, quotes or line breaks are quoted,
+ * and records end with CRLF
+ */
+function toCsv(rows: string[][]): string {
+    const quote = (field: string) => (/[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field);
+    return rows.map(row => row.map(quote).join(',') + '\r\n').join('');
+}
+
+/**
+ * Writes rows as TSV, quoting fields that contain tabs, quotes or line breaks like spreadsheets do
+ */
+function toTsv(rows: string[][]): string {
+    const quote = (field: string) => (/[\t"\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field);
+    return rows.map(row => row.map(quote).join('\t') + '\n').join('');
+}
+
+/**
+ * Writes the body rows as a JSON array of objects keyed by the header row.
+ * Empty header cells become `Column N`, and repeated ones get a ` (2)`, ` (3)`, ... suffix.
+ */
+function toJson(header: string[], body: string[][]): string {
+    const keys: string[] = [];
+    header.forEach((cell, col) => {
+        const name = cell.trim() || `Column ${col + 1}`;
+        let key = name;
+        for (let count = 2; keys.includes(key); count++) {
+            key = `${name} (${count})`;
+        }
+        keys.push(key);
+    });
+    const objects = body.map(row => Object.fromEntries(keys.map((key, col) => [key, row[col] ?? ''])));
+    return JSON.stringify(objects, null, 2) + '\n';
+}
+
+/**
+ * Writes a standalone HTML document holding the table
+ */
+function toHtmlDocument(data: string[][], options: TableExportOptions, mode: InlineMarkdownMode): string {
+    const [header = [], ...body] = data;
+    const mergedRegions = new Table(header, body, options.alignments, options.merges).getMergedRegions();
+    const table = htmlTableDialect.serialize(data.map(row => row.map(cell => toHtml(cell, mode))), {
+        alignments: options.alignments ?? [],
+        headerRowCount: Math.min(options.headerRowCount ?? 1, data.length),
+        eol: '\n',
+        merges: mergedRegions
+    });
+    const lines = table.split('\n');
+    if (options.caption) {
+        lines.splice(1, 0, `  <caption>${toHtml(options.caption, mode)}</caption>`);
+    }
+
+    return [
+        '<!DOCTYPE html>',
+        '<html>',
+        '<head>',
+        '<meta charset="utf-8">',
+        `<title>${escapeHtml(options.title ?? 'Table')}</title>`,
+        '<style>',
+        'table { border-collapse: collapse; }',
+        'th, td { border: 1px solid #ccc; padding: 4px 8px; }',
+        '</style>',
+        '</head>',
+        '<body>',
+        ...lines,
+        '</body>',
+        '</html>',
+        ''
+    ].join('\n');
+}
+
+/**
+ * Converts table data (header rows first) to the contents of an export file
+ */
+export function exportTable(data: string[][], format: ExportFormat, options: TableExportOptions = {}): string {
+    const mode = options.inlineMarkdown ?? 'keep';
+    const columnCount = Math.max(0, ...data.map(row => row.length));
+    const rows = data.map(row => Array.from({ length: columnCount }, (_, col) => row[col] ?? ''));
+
+    switch (format) {
+        case 'csv':
+            return toCsv(rows.map(row => row.map(cell => toText(cell, mode))));
+        case 'tsv':
+            return toTsv(rows.map(row => row.map(cell => toText(cell, mode))));
+        case 'json': {
+            const headerRowCount = Math.min(Math.max(1, options.headerRowCount ?? 1), rows.length);
+            const converted = rows.map(row => row.map(cell => toText(cell, mode)));
+            return toJson(converted[0] ?? [], converted.slice(headerRowCount));
+        }
+        case 'html':
+            return toHtmlDocument(rows, options, mode);
+        case 'latex':
+        case 'booktabs':
+            return tableToLatex(rows, { ...options, booktabs: format === 'booktabs' }) + '\n';
+        case 'asciidoc':
+            return tableToAsciiDoc(rows, options) + '\n';
+        case 'rst':
+            return tableToRstListTable(rows, options) + '\n';
+        case 'rstGrid':
+            return tableToRstGridTable(rows, options) + '\n';
+        case 'confluence':
+            return tableToConfluence(rows, options) + '\n';
+    }
+}
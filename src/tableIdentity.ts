@@ -0,0 +1,65 @@
+import type { TableInfo } from './tableParser';
+
+/**
+ * Identifies a table of a document independently of how many tables precede it,
+ * so that a table can be found again after the document was edited
+ */
+export interface TableIdentity {
+    /** Name given by a `<!-- table-id: ... -->` comment above the table */
+    anchor?: string;
+    /** Hash of the table's syntax and cell contents */
+    fingerprint: string;
+    /** Line the table started at when the identity was taken (0-indexed) */
+    startLine: number;
+}
+
+/**
+ * Hashes a table's syntax and cell contents (32-bit FNV-1a, as hex)
+ */
+export function getTableFingerprint(table: Pick<TableInfo, 'dialect' | 'data'>): string {
+    const text = table.dialect + '\n' + table.data.map(row => row.join('\t')).join('\n');
+    let hash = 0x811c9dc5;
+    for (let index = 0; index < text.length; index++) {
+        hash ^= text.charCodeAt(index);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Takes the identity of a table, e.g. to pass it to the edit command
+ */
+export function getTableIdentity(table: TableInfo): TableIdentity {
+    return {
+        anchor: table.anchor,
+        fingerprint: getTableFingerprint(table),
+        startLine: table.startLine
+    };
+}
+
+/**
+ * Finds the table an identity was taken from: the table with the same anchor, else the table
+ * with the same contents nearest to where it was, else the table still starting on the same line
+ */
+export function resolveTable(tables: readonly TableInfo[], identity: TableIdentity): TableInfo | undefined {
+    if (identity.anchor !== undefined) {
+        const anchored = tables.find(table => table.anchor === identity.anchor);
+        if (anchored) {
+            return anchored;
+        }
+    }
+
+    const distance = (table: TableInfo) => Math.abs(table.startLine - identity.startLine);
+    const sameContent = tables
+        .filter(table => getTableFingerprint(table) === identity.fingerprint)
+        .sort((a, b) => distance(a) - distance(b));
+    return sameContent[0] ?? tables.find(table => table.startLine === identity.startLine);
+}
+
+/**
+ * Key of a table within its document: its anchor, or else the line it starts at.
+ * Keys of tables without an anchor change as lines are added or removed above them.
+ */
+export function getTableKey(table: Pick<TableInfo, 'anchor' | 'startLine'>): string {
+    return table.anchor !== undefined ? `#${table.anchor}` : `@${table.startLine}`;
+}
@@ -0,0 +1,88 @@
+import type { TableInfo } from './tableParser';
+
+/**
+ * Lines replaced by a document edit: lines `startLine`..`endLine` (0-indexed, inclusive)
+ * of the document before the edit now hold `text`
+ */
+export interface LineChange {
+    startLine: number;
+    endLine: number;
+    text: string;
+}
+
+/**
+ * Where a table's lines are expected to be after a document edit
+ */
+export interface MappedLineRange {
+    startLine: number;
+    endLine: number;
+    /** Whether the edit changed any of the table's lines */
+    touched: boolean;
+}
+
+/**
+ * Moves a table's line range through the changes of one document edit.
+ * The changes must not overlap and must refer to the document before the edit, like
+ * the `contentChanges` of a VS Code `TextDocumentChangeEvent`.
+ */
+export function mapLineRange(range: { startLine: number; endLine: number }, changes: readonly LineChange[]): MappedLineRange {
+    let { startLine, endLine } = range;
+    let touched = false;
+
+    // Apply the changes from the bottom up, so earlier ones keep their line numbers
+    const ordered = [...changes].sort((a, b) => b.startLine - a.startLine);
+    for (const change of ordered) {
+        const delta = change.text.split('\n').length - 1 - (change.endLine - change.startLine);
+        if (change.endLine < range.startLine) {
+            startLine += delta;
+            endLine += delta;
+        } else if (change.startLine <= range.endLine) {
+            touched = true;
+            endLine = Math.max(startLine, endLine + delta);
+        }
+    }
+
+    return { startLine, endLine, touched };
+}
+
+/**
+ * Finds a table again after the document it was found in has been edited.
+ * Returns, in order of preference: the table with the same `<!-- table-id -->` anchor,
+ * the unchanged table at its expected position, the table overlapping the most lines
+ * of its expected range, or the nearest table with the same text.
+ * Returns undefined if the table was removed.
+ */
+export function findMovedTable(tables: readonly TableInfo[], previous: TableInfo, expected: MappedLineRange): TableInfo | undefined {
+    const anchored = previous.anchor !== undefined ? tables.find(table => table.anchor === previous.anchor) : undefined;
+    if (anchored) {
+        return anchored;
+    }
+
+    const unchanged = tables.find(table => table.startLine === expected.startLine && table.rawText === previous.rawText);
+    if (unchanged) {
+        return unchanged;
+    }
+
+    const distance = (table: TableInfo) => Math.abs(table.startLine - expected.startLine);
+    if (expected.touched) {
+        const overlap = (table: TableInfo) =>
+            Math.min(table.endLine, expected.endLine) - Math.max(table.startLine, expected.startLine) + 1;
+        const overlapping = tables
+            .filter(table => overlap(table) > 0)
+            .sort((a, b) => overlap(b) - overlap(a) || distance(a) - distance(b));
+        if (overlapping.length > 0) {
+            return overlapping[0];
+        }
+    }
+
+    return tables
+        .filter(table => table.rawText === previous.rawText)
+        .sort((a, b) => distance(a) - distance(b))[0];
+}
+
+/**
+ * Finds the table that contains a line (0-indexed), e.g. the line of the cursor
+ */
+export function findTableAtLine(tables: readonly TableInfo[], line: number): TableInfo | undefined {
+    return tables.find(table => table.startLine <= line && line <= table.endLine);
+}
@@ -0,0 +1,426 @@
+import { getDisplayWidth, padEndToWidth } from './displayWidth';
+import { formatCell, InlineMarkdownMode, InlineSyntax } from './inlineMarkdown';
+import { CellMerge, Table } from './tableModel';
+import type { ColumnAlignment, LineEnding } from './tableParser';
+
+/**
+ * Options for writing a table in another markup language
+ */
+export interface MarkupTableOptions {
+    /** Column alignments (missing entries are 'none'), written where the format supports them */
+    alignments?: ColumnAlignment[];
+    /** Explicit merges; `^` cells are merged with the cell above as well */
+    merges?: CellMerge[];
+    /** Number of header rows (defaults to 1) */
+    headerRowCount?: number;
+    /** Table caption, written where the format supports one */
+    caption?: string;
+    /** Treatment of inline Markdown in cells (defaults to 'keep') */
+    inlineMarkdown?: InlineMarkdownMode;
+    /** Line ending to join lines with (defaults to `\n`) */
+    eol?: LineEnding;
+}
+
+/**
+ * Span of the cell at a grid position, or undefined if a merged cell covers the position
+ */
+type CellSpan = { rowSpan: number; colSpan: number } | undefined;
+
+/**
+ * Table data padded to a rectangle, with the span of each cell
+ */
+interface TableLayout {
+    rows: string[][];
+    spans: CellSpan[][];
+    alignments: ColumnAlignment[];
+    headerRowCount: number;
+    columnCount: number;
+}
+
+function getTableLayout(data: string[][], options: MarkupTableOptions): TableLayout {
+    const columnCount = Math.max(1, ...data.map(row => row.length));
+    const rows = data.map(row => Array.from({ length: columnCount }, (_, col) => row[col] ?? ''));
+    const spans: CellSpan[][] = rows.map(row => row.map(() => ({ rowSpan: 1, colSpan: 1 })));
+    if (rows.length > 0) {
+        const [header, ...body] = rows;
+        for (const merge of new Table(header, body, options.alignments, options.merges).getMergedRegions()) {
+            for (let row = merge.row; row < merge.row + merge.rowSpan; row++) {
+                for (let col = merge.col; col < merge.col + merge.colSpan; col++) {
+                    spans[row][col] = undefined;
+                }
+            }
+            spans[merge.row][merge.col] = { rowSpan: merge.rowSpan, colSpan: merge.colSpan };
+        }
+    }
+    return {
+        rows,
+        spans,
+        alignments: Array.from({ length: columnCount }, (_, col) => options.alignments?.[col] ?? 'none'),
+        headerRowCount: Math.min(Math.max(0, options.headerRowCount ?? 1), rows.length),
+        columnCount
+    };
+}
+
+/**
+ * Finds the merged cell covering a grid position
+ */
+function findSpanOrigin(layout: TableLayout, row: number, col: number): { row: number; col: number; rowSpan: number; colSpan: number } {
+    for (let originRow = row; originRow >= 0; originRow--) {
+        for (let originCol = col; originCol >= 0; originCol--) {
+            const span = layout.spans[originRow][originCol];
+            if (span && originRow + span.rowSpan > row && originCol + span.colSpan > col) {
+                return { row: originRow, col: originCol, ...span };
+            }
+        }
+    }
+    return { row, col, rowSpan: 1, colSpan: 1 };
+}
+
+/**
+ * LaTeX commands for the characters that are special in LaTeX text
+ */
+const LATEX_SPECIAL_CHARACTERS = new Map<string, string>([
+    ['\\', '\\textbackslash{}'],
+    ['&', '\\&'],
+    ['%', '\\%'],
+    ['$', '\\$'],
+    ['#', '\\#'],
+    ['_', '\\_'],
+    ['{', '\\{'],
+    ['}', '\\}'],
+    ['~', '\\textasciitilde{}'],
+    ['^', '\\textasciicircum{}']
+]);
+
+function escapeLatex(text: string): string {
+    return text.replace(/[\\&%$#_{}~^]/g, char => LATEX_SPECIAL_CHARACTERS.get(char)!);
+}
+
+const LATEX_SYNTAX: InlineSyntax = {
+    text: escapeLatex,
+    bold: content => `\\textbf{${content}}`,
+    italic: content => `\\textit{${content}}`,
+    strikethrough: content => content,
+    code: code => `\\texttt{${escapeLatex(code)}}`,
+    link: (content, url) => `\\href{${url.replace(/[\\%#{}]/g, '\\$&')}}{${content}}`,
+    image: alt => escapeLatex(alt),
+    lineBreak: '\n',
+    htmlTag: () => ''
+};
+
+const LATEX_ALIGNMENTS: Record<ColumnAlignment, string> = { none: 'l', left: 'l', center: 'c', right: 'r' };
+
+/**
+ * Writes a table as a LaTeX `tabular`, either with vertical rules and `\hline`s or in
+ * `booktabs` style. Cells merged with `^` become `\multirow`s, column spans `\multicolumn`s,
+ * and a caption wraps the table in a `table` float. A comment lists the packages it needs.
+ */
+export function tableToLatex(data: string[][], options: MarkupTableOptions & { booktabs?: boolean } = {}): string {
+    const layout = getTableLayout(data, options);
+    const mode = options.inlineMarkdown ?? 'keep';
+    const booktabs = options.booktabs ?? false;
+    const packages = new Set<string>(booktabs ? ['booktabs'] : []);
+
+    const columnSpec = (col: number) => {
+        const letter = LATEX_ALIGNMENTS[layout.alignments[col]];
+        return booktabs ? letter : (col === 0 ? '|' : '') + letter + '|';
+    };
+    const formatContent = (cell: string, col: number) => {
+        const content = formatCell(cell, mode, LATEX_SYNTAX);
+        if (content.includes('\\href{')) {
+            packages.add('hyperref');
+        }
+        const lines = content.split('\n');
+        return lines.length > 1 ? `\\shortstack[${LATEX_ALIGNMENTS[layout.alignments[col]]}]{${lines.join(' \\\\ ')}}` : content;
+    };
+
+    const rowLines = layout.rows.map((row, rowIndex) => {
+        const cells: string[] = [];
+        for (let col = 0; col < layout.columnCount;) {
+            const span = layout.spans[rowIndex][col];
+            if (span) {
+                let content = formatContent(row[col], col);
+                if (span.rowSpan > 1) {
+                    packages.add('multirow');
+                    content = `\\multirow{${span.rowSpan}}{*}{${content}}`;
+                }
+                cells.push(span.colSpan > 1 ? `\\multicolumn{${span.colSpan}}{${columnSpec(col)}}{${content}}` : content);
+                col += span.colSpan;
+            } else {
+                // Below the first row of a \multirow: an empty cell (or \multicolumn) per covered position
+                const origin = findSpanOrigin(layout, rowIndex, col);
+                cells.push(origin.colSpan > 1 ? `\\multicolumn{${origin.colSpan}}{${columnSpec(col)}}{}` : '');
+                col += origin.colSpan;
+            }
+        }
+        return cells.join(' & ') + ' \\\\';
+    });
+
+    // Rules between rows leave out the columns of cells spanning across them
+    const ruleBelow = (rowIndex: number) => {
+        if (booktabs) {
+            return rowIndex === layout.headerRowCount - 1 ? '\\midrule' : undefined;
+        }
+        const open: number[] = [];
+        for (let col = 0; col < layout.columnCount; col++) {
+            if (!layout.spans[rowIndex + 1][col] && findSpanOrigin(layout, rowIndex + 1, col).row <= rowIndex) {
+                continue;
+            }
+            open.push(col);
+        }
+        if (open.length === layout.columnCount) {
+            return '\\hline';
+        }
+        const ranges: string[] = [];
+        open.forEach((col, index) => {
+            if (index === 0 || open[index - 1] !== col - 1) {
+                ranges.push(`${col + 1}-${col + 1}`);
+            } else {
+                ranges[ranges.length - 1] = ranges[ranges.length - 1].replace(/-\d+$/, `-${col + 1}`);
+            }
+        });
+        return ranges.map(range => `\\cline{${range}}`).join(' ');
+    };
+
+    const tabular = [
+        `\\begin{tabular}{${layout.alignments.map((_, col) => columnSpec(col)).join('')}}`,
+        booktabs ? '\\toprule' : '\\hline'
+    ];
+    rowLines.forEach((line, rowIndex) => {
+        tabular.push(line);
+        const rule = rowIndex < rowLines.length - 1 ? ruleBelow(rowIndex) : undefined;
+        if (rule) {
+            tabular.push(rule);
+        }
+    });
+    tabular.push(booktabs ? '\\bottomrule' : '\\hline', '\\end{tabular}');
+
+    const lines = options.caption !== undefined
+        ? [
+            '\\begin{table}[htbp]',
+            '\\centering',
+            `\\caption{${formatCell(options.caption, mode, LATEX_SYNTAX).replace(/\n/g, ' ')}}`,
+            ...tabular,
+            '\\end{table}'
+        ]
+        : tabular;
+    if (packages.size > 0) {
+        lines.unshift(`% Requires \\usepackage{${[...packages].sort().join(',')}}`);
+    }
+    return lines.join(options.eol ?? '\n');
+}
+
+const ASCIIDOC_SYNTAX: InlineSyntax = {
+    text: text => text.replace(/\|/g, '\\|'),
+    bold: content => `**${content}**`,
+    italic: content => `__${content}__`,
+    strikethrough: content => `[.line-through]#${content}#`,
+    code: code => `\`+${code.replace(/\|/g, '\\|')}+\``,
+    link: (content, url) => `${url}[${content}]`,
+    image: (alt, url) => `image:${url}[${alt}]`,
+    lineBreak: ' +\n',
+    htmlTag: () => ''
+};
+
+const ASCIIDOC_ALIGNMENTS: Record<ColumnAlignment, string> = { none: '', left: '<', center: '^', right: '>' };
+
+/**
+ * Writes a table as an AsciiDoc `|===` table, with column alignments in the `cols` attribute and
+ * merged cells as `2+|` (columns) and `.2+|` (rows) span specifiers. AsciiDoc has a single header row.
+ */
+export function tableToAsciiDoc(data: string[][], options: MarkupTableOptions = {}): string {
+    const layout = getTableLayout(data, options);
+    const mode = options.inlineMarkdown ?? 'keep';
+    const eol = options.eol ?? '\n';
+
+    const lines: string[] = [];
+    if (options.caption !== undefined) {
+        lines.push('.' + formatCell(options.caption, mode, ASCIIDOC_SYNTAX).replace(/ \+\n/g, ' '));
+    }
+    const attributes: string[] = [];
+    if (layout.alignments.some(alignment => alignment !== 'none')) {
+        attributes.push(`cols="${layout.alignments.map(alignment => ASCIIDOC_ALIGNMENTS[alignment] + '1').join(',')}"`);
+    }
+    if (layout.headerRowCount > 0) {
+        attributes.push('options="header"');
+    }
+    if (attributes.length > 0) {
+        lines.push(`[${attributes.join(',')}]`);
+    }
+
+    lines.push('|===');
+    layout.rows.forEach((row, rowIndex) => {
+        const cells: string[] = [];
+        row.forEach((cell, col) => {
+            const span = layout.spans[rowIndex][col];
+            if (!span) {
+                return;
+            }
+            const colSpan = span.colSpan > 1 ? String(span.colSpan) : '';
+            const rowSpan = span.rowSpan > 1 ? `.${span.rowSpan}` : '';
+            const specifier = colSpan || rowSpan ? `${colSpan}${rowSpan}+` : '';
+            cells.push(`${specifier}|${formatCell(cell, mode, ASCIIDOC_SYNTAX)}`);
+        });
+        lines.push(cells.join(' ').replace(/\n/g, eol));
+        if (rowIndex === 0 && layout.headerRowCount > 0) {
+            lines.push('');
+        }
+    });
+    lines.push('|===');
+
+    return lines.join(eol);
+}
+
+const RST_SYNTAX: InlineSyntax = {
+    text: text => text.replace(/[\\*`|_]/g, '\\$&'),
+    bold: content => `**${content}**`,
+    italic: content => `*${content}*`,
+    strikethrough: content => content,
+    code: code => `\`\`${code}\`\``,
+    link: (content, url) => `\`${content} <${url}>\`__`,
+    image: alt => alt.replace(/[\\*`|_]/g, '\\$&'),
+    lineBreak: '\n',
+    htmlTag: () => ''
+};
+
+/**
+ * Writes a cell as RST body lines; a cell with line breaks becomes a line block
+ */
+function formatRstCell(cell: string, mode: InlineMarkdownMode): string[] {
+    const lines = formatCell(cell, mode, RST_SYNTAX).split('\n');
+    return lines.length > 1 ? lines.map(line => `| ${line}`) : lines;
+}
+
+/**
+ * Writes a table as an RST `list-table` directive. List tables cannot span or align cells:
+ * merged cells keep their content in the first cell and leave the others empty.
+ */
+export function tableToRstListTable(data: string[][], options: MarkupTableOptions = {}): string {
+    const layout = getTableLayout(data, options);
+    const mode = options.inlineMarkdown ?? 'keep';
+
+    const title = options.caption !== undefined ? ' ' + formatCell(options.caption, mode, RST_SYNTAX).replace(/\n/g, ' ') : '';
+    const lines = [`.. list-table::${title}`];
+    if (layout.headerRowCount > 0) {
+        lines.push(`   :header-rows: ${layout.headerRowCount}`);
+    }
+    lines.push('');
+    layout.rows.forEach((row, rowIndex) => {
+        row.forEach((cell, col) => {
+            const marker = col === 0 ? '   * - ' : '     - ';
+            const [first, ...rest] = layout.spans[rowIndex][col] ? formatRstCell(cell, mode) : [''];
+            lines.push((marker + first).trimEnd(), ...rest.map(line => '       ' + line));
+        });
+    });
+
+    return lines.join(options.eol ?? '\n');
+}
+
+/**
+ * Writes a table as an RST grid table, with merged cells spanning rows and columns.
+ * RST grid tables have no column alignment.
+ */
+export function tableToRstGridTable(data: string[][], options: MarkupTableOptions = {}): string {
+    const layout = getTableLayout(data, options);
+    const mode = options.inlineMarkdown ?? 'keep';
+    const rowCount = layout.rows.length;
+    if (rowCount === 0) {
+        return '';
+    }
+
+    const contents = layout.rows.map((row, rowIndex) =>
+        row.map((cell, col) => (layout.spans[rowIndex][col] ? formatRstCell(cell, mode) : []))
+    );
+
+    // Size the columns and rows to their single cells first, then widen them for spanning cells
+    const widths = Array<number>(layout.columnCount).fill(1);
+    const heights = Array<number>(rowCount).fill(1);
+    const forEachCell = (callback: (row: number, col: number, span: { rowSpan: number; colSpan: number }) => void) =>
+        layout.spans.forEach((spans, row) => spans.forEach((span, col) => span && callback(row, col, span)));
+    const contentWidth = (row: number, col: number) => Math.max(0, ...contents[row][col].map(line => getDisplayWidth(line)));
+    forEachCell((row, col, span) => {
+        if (span.colSpan === 1) {
+            widths[col] = Math.max(widths[col], contentWidth(row, col));
+        }
+        if (span.rowSpan === 1) {
+            heights[row] = Math.max(heights[row], contents[row][col].length);
+        }
+    });
+    forEachCell((row, col, span) => {
+        const spannedWidth = widths.slice(col, col + span.colSpan).reduce((sum, width) => sum + width + 3, -3);
+        widths[col + span.colSpan - 1] += Math.max(0, contentWidth(row, col) - spannedWidth);
+        const spannedHeight = heights.slice(row, row + span.rowSpan).reduce((sum, height) => sum + height + 1, -1);
+        heights[row + span.rowSpan - 1] += Math.max(0, contents[row][col].length - spannedHeight);
+    });
+
+    // Draw every cell's box onto a character grid; boxes share their borders
+    const xs = [0];
+    widths.forEach(width => xs.push(xs[xs.length - 1] + width + 3));
+    const ys = [0];
+    heights.forEach(height => ys.push(ys[ys.length - 1] + height + 1));
+    const canvas = Array.from({ length: ys[rowCount] + 1 }, () => Array<string>(xs[layout.columnCount] + 1).fill(' '));
+    const headerBorder = layout.headerRowCount > 0 && layout.headerRowCount < rowCount ? ys[layout.headerRowCount] : -1;
+
+    forEachCell((row, col, span) => {
+        const left = xs[col];
+        const right = xs[col + span.colSpan];
+        const top = ys[row];
+        const bottom = ys[row + span.rowSpan];
+        // Corners of neighbouring cells stay on the borders
+        for (const y of [top, bottom]) {
+            for (let x = left + 1; x < right; x++) {
+                if (canvas[y][x] !== '+') {
+                    canvas[y][x] = y === headerBorder ? '=' : '-';
+                }
+            }
+            canvas[y][left] = '+';
+            canvas[y][right] = '+';
+        }
+        for (let y = top + 1; y < bottom; y++) {
+            for (const x of [left, right]) {
+                if (canvas[y][x] !== '+') {
+                    canvas[y][x] = '|';
+                }
+            }
+        }
+        contents[row][col].forEach((line, index) => {
+            // Wide characters take several columns: the padded line fills the first one
+            const width = right - left - 3;
+            const y = top + 1 + index;
+            canvas[y][left + 2] = padEndToWidth(line, width);
+            for (let x = left + 3; x < left + 2 + width; x++) {
+                canvas[y][x] = '';
+            }
+        });
+    });
+
+    return canvas.map(line => line.join('')).join(options.eol ?? '\n');
+}
+
+const CONFLUENCE_SYNTAX: InlineSyntax = {
+    text: text => text.replace(/[\\|[\]{}*]/g, '\\$&'),
+    bold: content => `*${content}*`,
+    italic: content => `_${content}_`,
+    strikethrough: content => `-${content}-`,
+    code: code => `{{${code.replace(/[\\|[\]{}]/g, '\\$&')}}}`,
+    link: (content, url) => `[${content}|${url}]`,
+    image: (_alt, url) => `!${url}!`,
+    lineBreak: '\\\\',
+    htmlTag: () => ''
+};
+
+/**
+ * Writes a table in Confluence wiki markup (`||header||` and `|cell|` rows). Wiki markup tables
+ * have no spans, alignment or caption: merged cells keep their content in the first cell.
+ */
+export function tableToConfluence(data: string[][], options: MarkupTableOptions = {}): string {
+    const layout = getTableLayout(data, options);
+    const mode = options.inlineMarkdown ?? 'keep';
+
+    return layout.rows.map((row, rowIndex) => {
+        const separator = rowIndex < layout.headerRowCount ? '||' : '|';
+        // An empty cell needs a space, or the pipes around it would read as a header separator
+        const cells = row.map((cell, col) => (layout.spans[rowIndex][col] && formatCell(cell, mode, CONFLUENCE_SYNTAX)) || ' ');
+        return separator + cells.join(separator) + separator;
+    }).join(options.eol ?? '\n');
+}
@@ -0,0 +1,409 @@
+import { ColumnAlignment } from './tableParser';
+
+/**
+ * A rectangular block of merged cells, in grid coordinates (row 0 is the header row)
+ */
+export interface CellMerge {
+    row: number;
+    col: number;
+    rowSpan: number;
+    colSpan: number;
+}
+
+/**
+ * Cell value that merges a cell with the cell above it
+ */
+export const MERGE_ABOVE_MARKER = '^';
+
+/**
+ * Table model shared by the extension host and the webview.
+ *
+ * Rows are addressed in grid coordinates: row 0 is the header row and the body rows follow,
+ * matching the editor grid. Every row always has exactly `columnCount` cells, and structural
+ * operations keep alignments and merges in step with the cells they describe.
+ */
+export class Table {
+    private _cells: string[][];
+    private _alignments: ColumnAlignment[];
+    private _merges: CellMerge[];
+
+    constructor(header: string[], rows: string[][] = [], alignments: ColumnAlignment[] = [], merges: CellMerge[] = []) {
+        const columnCount = Math.max(1, header.length, ...rows.map(row => row.length));
+        this._cells = [header, ...rows].map(row => fitRow(row, columnCount));
+        this._alignments = Array.from({ length: columnCount }, (_, col) => alignments[col] ?? 'none');
+        this._merges = [];
+        for (const merge of merges) {
+            this._addMerge(merge);
+        }
+    }
+
+    /**
+     * Creates a table from grid data whose first row is the header
+     */
+    public static fromData(data: string[][], alignments: ColumnAlignment[] = [], merges: CellMerge[] = []): Table {
+        return new Table(data[0] ?? [], data.slice(1), alignments, merges);
+    }
+
+    /** The header row */
+    public get header(): string[] {
+        return this._cells[0];
+    }
+
+    /** The body rows (everything below the header) */
+    public get rows(): string[][] {
+        return this._cells.slice(1);
+    }
+
+    /** Alignment of each column */
+    public get alignments(): ColumnAlignment[] {
+        return this._alignments;
+    }
+
+    /** Explicit merged regions (see getMergedRegions for `^` merges) */
+    public get merges(): CellMerge[] {
+        return this._merges;
+    }
+
+    /** Number of grid rows, including the header row */
+    public get rowCount(): number {
+        return this._cells.length;
+    }
+
+    public get columnCount(): number {
+        return this._alignments.length;
+    }
+
+    /**
+     * Returns a copy of the grid, header row first
+     */
+    public toData(): string[][] {
+        return this._cells.map(row => [...row]);
+    }
+
+    public clone(): Table {
+        return Table.fromData(this._cells, this._alignments, this._merges);
+    }
+
+    public getCell(row: number, col: number): string {
+        this._checkCell(row, col);
+        return this._cells[row][col];
+    }
+
+    public setCell(row: number, col: number, value: string): this {
+        this._checkCell(row, col);
+        this._cells[row][col] = value;
+        return this;
+    }
+
+    /**
+     * Writes a block of cells with its top-left corner at (row, col).
+     * Cells that fall outside the table are dropped; use ensureSize first to grow the table.
+     */
+    public setCells(row: number, col: number, cells: string[][]): this {
+        this._checkCell(row, col);
+        for (let r = 0; r < cells.length && row + r < this.rowCount; r++) {
+            for (let c = 0; c < cells[r].length && col + c < this.columnCount; c++) {
+                this._cells[row + r][col + c] = cells[r][c];
+            }
+        }
+        return this;
+    }
+
+    /**
+     * Grows the table with empty rows and columns to at least the given size
+     */
+    public ensureSize(rowCount: number, columnCount: number): this {
+        if (columnCount > this.columnCount) {
+            this.insertColumns(this.columnCount, columnCount - this.columnCount);
+        }
+        if (rowCount > this.rowCount) {
+            this.insertRows(this.rowCount, rowCount - this.rowCount);
+        }
+        return this;
+    }
+
+    /**
+     * Inserts rows before `index` (rowCount appends). With `rows`, those rows are inserted
+     * (fitted to the column count); otherwise `count` empty rows.
+     */
+    public insertRows(index: number, count: number = 1, rows?: string[][]): this {
+        this._checkInsertIndex(index, this.rowCount, 'row');
+        const inserted = rows
+            ? rows.map(row => fitRow(row, this.columnCount))
+            : Array.from({ length: count }, () => new Array<string>(this.columnCount).fill(''));
+        this._cells.splice(index, 0, ...inserted);
+        this._merges = shiftMerges(this._merges, 'row', index, inserted.length);
+        return this;
+    }
+
+    /**
+     * Deletes `count` rows starting at `index`. At least one row must remain.
+     */
+    public deleteRows(index: number, count: number = 1): this {
+        this._checkRange(index, count, this.rowCount, 'row');
+        if (count >= this.rowCount) {
+            throw new RangeError('Cannot delete all rows');
+        }
+        this._cells.splice(index, count);
+        this._merges = removeFromMerges(this._merges, 'row', index, count);
+        return this;
+    }
+
+    /**
+     * Inserts columns before `index` (columnCount appends). With `columns`, each entry holds
+     * the cells of one column from the header down; otherwise `count` empty columns.
+     */
+    public insertColumns(index: number, count: number = 1, columns?: string[][], alignments: ColumnAlignment[] = []): this {
+        this._checkInsertIndex(index, this.columnCount, 'column');
+        const insertedCount = columns ? columns.length : count;
+        for (let row = 0; row < this.rowCount; row++) {
+            const values = Array.from({ length: insertedCount }, (_, i) => columns?.[i][row] ?? '');
+            this._cells[row].splice(index, 0, ...values);
+        }
+        this._alignments.splice(index, 0, ...Array.from({ length: insertedCount }, (_, i) => alignments[i] ?? 'none'));
+        this._merges = shiftMerges(this._merges, 'col', index, insertedCount);
+        return this;
+    }
+
+    /**
+     * Deletes `count` columns starting at `index`. At least one column must remain.
+     */
+    public deleteColumns(index: number, count: number = 1): this {
+        this._checkRange(index, count, this.columnCount, 'column');
+        if (count >= this.columnCount) {
+            throw new RangeError('Cannot delete all columns');
+        }
+        for (const row of this._cells) {
+            row.splice(index, count);
+        }
+        this._alignments.splice(index, count);
+        this._merges = removeFromMerges(this._merges, 'col', index, count);
+        return this;
+    }
+
+    /**
+     * Moves a row so that it ends up at index `to`
+     */
+    public moveRow(from: number, to: number): this {
+        this._checkRange(from, 1, this.rowCount, 'row');
+        this._checkRange(to, 1, this.rowCount, 'row');
+        const [row] = this._cells.splice(from, 1);
+        this._cells.splice(to, 0, row);
+        this._merges = moveInMerges(this._merges, 'row', from, to, this.rowCount);
+        return this;
+    }
+
+    /**
+     * Moves a column (with its alignment) so that it ends up at index `to`
+     */
+    public moveColumn(from: number, to: number): this {
+        this._checkRange(from, 1, this.columnCount, 'column');
+        this._checkRange(to, 1, this.columnCount, 'column');
+        for (const row of this._cells) {
+            const [cell] = row.splice(from, 1);
+            row.splice(to, 0, cell);
+        }
+        const [alignment] = this._alignments.splice(from, 1);
+        this._alignments.splice(to, 0, alignment);
+        this._merges = moveInMerges(this._merges, 'col', from, to, this.columnCount);
+        return this;
+    }
+
+    /**
+     * Swaps rows and columns. Alignments describe columns, so they are reset.
+     */
+    public transpose(): this {
+        this._cells = Array.from({ length: this.columnCount }, (_, col) => this._cells.map(row => row[col]));
+        this._alignments = new Array<ColumnAlignment>(this._cells[0].length).fill('none');
+        this._merges = this._merges.map(merge => ({
+            row: merge.col,
+            col: merge.row,
+            rowSpan: merge.colSpan,
+            colSpan: merge.rowSpan
+        }));
+        return this;
+    }
+
+    /**
+     * Returns a new table with the rows [startRow, endRow) and columns [startCol, endCol).
+     * The first sliced row becomes the header; merges are clipped to the slice.
+     */
+    public slice(startRow: number = 0, endRow: number = this.rowCount, startCol: number = 0, endCol: number = this.columnCount): Table {
+        const rowEnd = Math.min(endRow, this.rowCount);
+        const colEnd = Math.min(endCol, this.columnCount);
+        if (startRow < 0 || startCol < 0 || startRow >= rowEnd || startCol >= colEnd) {
+            throw new RangeError('Slice must contain at least one cell');
+        }
+        const merges: CellMerge[] = [];
+        for (const merge of this._merges) {
+            const top = Math.max(merge.row, startRow);
+            const left = Math.max(merge.col, startCol);
+            const bottom = Math.min(merge.row + merge.rowSpan, rowEnd);
+            const right = Math.min(merge.col + merge.colSpan, colEnd);
+            if (bottom > top && right > left) {
+                merges.push({ row: top - startRow, col: left - startCol, rowSpan: bottom - top, colSpan: right - left });
+            }
+        }
+        return Table.fromData(
+            this._cells.slice(startRow, rowEnd).map(row => row.slice(startCol, colEnd)),
+            this._alignments.slice(startCol, colEnd),
+            merges
+        );
+    }
+
+    /**
+     * Sets the alignment of `count` columns starting at `index`
+     */
+    public setAlignment(index: number, alignment: ColumnAlignment, count: number = 1): this {
+        this._checkRange(index, count, this.columnCount, 'column');
+        this._alignments.fill(alignment, index, index + count);
+        return this;
+    }
+
+    /**
+     * Merges a rectangular region. Existing merges that overlap it are replaced.
+     */
+    public merge(region: CellMerge): this {
+        this._checkRange(region.row, region.rowSpan, this.rowCount, 'row');
+        this._checkRange(region.col, region.colSpan, this.columnCount, 'column');
+        this._merges = this._merges.filter(merge => !overlaps(merge, region));
+        this._addMerge(region);
+        return this;
+    }
+
+    /**
+     * Removes the explicit merge covering a cell, if any
+     */
+    public unmerge(row: number, col: number): this {
+        this._merges = this._merges.filter(merge => !overlaps(merge, { row, col, rowSpan: 1, colSpan: 1 }));
+        return this;
+    }
+
+    /**
+     * Returns all merged regions: the explicit merges plus vertical runs formed by
+     * `^` cells, each of which merges with the cell above it
+     */
+    public getMergedRegions(): CellMerge[] {
+        const regions = this._merges.map(merge => ({ ...merge }));
+        for (let col = 0; col < this.columnCount; col++) {
+            let row = 1;
+            while (row < this.rowCount) {
+                if (this._cells[row][col].trim() !== MERGE_ABOVE_MARKER) {
+                    row++;
+                    continue;
+                }
+                const start = row - 1;
+                while (row < this.rowCount && this._cells[row][col].trim() === MERGE_ABOVE_MARKER) {
+                    row++;
+                }
+                regions.push({ row: start, col, rowSpan: row - start, colSpan: 1 });
+            }
+        }
+        return regions;
+    }
+
+    private _addMerge(merge: CellMerge) {
+        if (merge.rowSpan * merge.colSpan > 1) {
+            this._merges.push({ ...merge });
+        }
+    }
+
+    private _checkCell(row: number, col: number) {
+        this._checkRange(row, 1, this.rowCount, 'row');
+        this._checkRange(col, 1, this.columnCount, 'column');
+    }
+
+    private _checkRange(index: number, count: number, length: number, kind: string) {
+        if (!Number.isInteger(index) || !Number.isInteger(count) || index < 0 || count < 1 || index + count > length) {
+            throw new RangeError(`Invalid ${kind} range ${index}..${index + count - 1} (${kind} count is ${length})`);
+        }
+    }
+
+    private _checkInsertIndex(index: number, length: number, kind: string) {
+        if (!Number.isInteger(index) || index < 0 || index > length) {
+            throw new RangeError(`Invalid ${kind} index ${index} (${kind} count is ${length})`);
+        }
+    }
+}
+
+/**
+ * Pads or truncates a row to the given number of cells
+ */
+function fitRow(row: string[], columnCount: number): string[] {
+    return Array.from({ length: columnCount }, (_, col) => row[col] ?? '');
+}
+
+/**
+ * Checks if two regions share at least one cell
+ */
+function overlaps(a: CellMerge, b: CellMerge): boolean {
+    return a.row < b.row + b.rowSpan && b.row < a.row + a.rowSpan &&
+        a.col < b.col + b.colSpan && b.col < a.col + a.colSpan;
+}
+
+/**
+ * Start and span of a merge along an axis
+ */
+function getSpan(merge: CellMerge, axis: 'row' | 'col'): [number, number] {
+    return axis === 'row' ? [merge.row, merge.rowSpan] : [merge.col, merge.colSpan];
+}
+
+function withSpan(merge: CellMerge, axis: 'row' | 'col', start: number, span: number): CellMerge {
+    return axis === 'row' ? { ...merge, row: start, rowSpan: span } : { ...merge, col: start, colSpan: span };
+}
+
+/**
+ * Adjusts merges for `count` rows/columns inserted before `index`.
+ * Merges spanning the insertion point grow to include the new cells.
+ */
+function shiftMerges(merges: CellMerge[], axis: 'row' | 'col', index: number, count: number): CellMerge[] {
+    return merges.map(merge => {
+        const [start, span] = getSpan(merge, axis);
+        if (start >= index) {
+            return withSpan(merge, axis, start + count, span);
+        }
+        if (start + span > index) {
+            return withSpan(merge, axis, start, span + count);
+        }
+        return merge;
+    });
+}
+
+/**
+ * Adjusts merges for `count` rows/columns deleted at `index`, dropping merges that no longer span two cells
+ */
+function removeFromMerges(merges: CellMerge[], axis: 'row' | 'col', index: number, count: number): CellMerge[] {
+    const end = index + count;
+    return merges
+        .map(merge => {
+            const [start, span] = getSpan(merge, axis);
+            const overlap = Math.max(0, Math.min(start + span, end) - Math.max(start, index));
+            const newStart = start >= end ? start - count : Math.min(start, index);
+            return withSpan(merge, axis, newStart, span - overlap);
+        })
+        .filter(merge => merge.rowSpan > 0 && merge.colSpan > 0 && merge.rowSpan * merge.colSpan > 1);
+}
+
+/**
+ * Adjusts merges for a row/column moved from `from` to `to`.
+ * Merges whose cells are no longer adjacent after the move are dropped.
+ */
+function moveInMerges(merges: CellMerge[], axis: 'row' | 'col', from: number, to: number, length: number): CellMerge[] {
+    const order = Array.from({ length }, (_, i) => i);
+    const [moved] = order.splice(from, 1);
+    order.splice(to, 0, moved);
+    const newIndexOf = new Array<number>(length);
+    order.forEach((oldIndex, newIndex) => {
+        newIndexOf[oldIndex] = newIndex;
+    });
+
+    const result: CellMerge[] = [];
+    for (const merge of merges) {
+        const [start, span] = getSpan(merge, axis);
+        const positions = Array.from({ length: span }, (_, i) => newIndexOf[start + i]).sort((a, b) => a - b);
+        if (positions[positions.length - 1] - positions[0] === span - 1) {
+            result.push(withSpan(merge, axis, positions[0], span));
+        }
+    }
+    return result;
+}
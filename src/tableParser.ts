@@ -1,3 +1,58 @@
+import { getDisplayWidth, padToAlignment } from './displayWidth';
+import { gridTableDialect } from './gridTable';
+import { htmlTableDialect } from './htmlTable';
+import { classifyLines, getBlockquotePrefix } from './markdownBlocks';
+import { matchSequences } from './sequenceMatch';
+import { simpleTableDialect } from './simpleTable';
+import type { TableDialect, TableDialectName } from './tableDialect';
+import type { CellMerge } from './tableModel';
+
+/**
+ * Column alignment declared in the separator row
+ * ('none' for `---`, 'left' for `:---`, 'center' for `:---:`, 'right' for `---:`)
+ */
+export type ColumnAlignment = 'none' | 'left' | 'center' | 'right';
+
+/**
+ * Line ending used by a document
+ */
+export type LineEnding = '\n' | '\r\n';
+
+/**
+ * How a table is written back on save:
+ * 'preserve' rewrites only what changed, 'aligned' pads every column to the same width,
+ * 'compact' writes each cell with single spaces and separators with three dashes
+ */
+export type TableOutputStyle = 'preserve' | 'aligned' | 'compact';
+
+/**
+ * Comment on the line above a table that overrides the output style for that table
+ * (e.g. `<!-- table-style: compact -->`)
+ */
+const TABLE_STYLE_COMMENT = /^<!--\s*table-style:\s*(preserve|aligned|compact)\s*-->\s*$/;
+
+/**
+ * Comment above a table that names it, so it can be found again however the document is edited
+ * (e.g. `<!-- table-id: pricing -->`)
+ */
+const TABLE_ID_COMMENT = /^<!--\s*table-id:\s*([\w.-]+)\s*-->\s*$/;
+
+/**
+ * MultiMarkdown table caption on the line above or below a table: `[Caption]` or `[Caption][label]`
+ */
+const CAPTION_LINE = /^\[([^\]]+)\](?:\[([^\]]*)\])?\s*$/;
+
+/**
+ * Table dialects other than pipe tables, tried in this order before pipe tables
+ * (HTML tables are only looked for at the start of HTML blocks)
+ */
+const TABLE_DIALECTS: TableDialect[] = [gridTableDialect, simpleTableDialect, htmlTableDialect];
+
+/**
+ * Dialects detected when none are configured
+ */
+export const DEFAULT_TABLE_DIALECTS: TableDialectName[] = ['pipe', 'grid', 'simple', 'html'];
+
 /**
  * Represents a parsed Markdown table
  */
@@ -8,242 +63,1202 @@ export interface TableInfo {
     endLine: number;
     /** Table data as 2D array */
     data: string[][];
-    /** Original markdown text */
+    /** Alignment of each column, taken from the separator row */
+    alignments: ColumnAlignment[];
+    /** Whether the rows are written with leading/trailing pipes */
+    pipeStyle: PipeStyle;
+    /** Common line prefix of the table: blockquote markers and/or list item indentation (e.g. `> `) */
+    prefix: string;
+    /** Line ending of the document the table was found in */
+    eol: LineEnding;
+    /** Output style requested by a `<!-- table-style: ... -->` comment above the table */
+    outputStyle?: TableOutputStyle;
+    /** Name given by a `<!-- table-id: ... -->` comment above the table */
+    anchor?: string;
+    /** Original markdown text (lines joined with `eol`) */
     rawText: string;
+    /** Table syntax the table is written in, and saved back in */
+    dialect: TableDialectName;
+    /** Number of leading rows that form the header (0 for headerless grid and simple tables) */
+    headerRowCount: number;
+    /** Cells spanning several rows or columns (`colspan`/`rowspan` in HTML tables, `||` in MultiMarkdown) */
+    merges?: CellMerge[];
+    /** Parsed in MultiMarkdown mode, so spans, header rows and the caption are written back */
+    multiMarkdown?: boolean;
+    /** MultiMarkdown caption line (included in the table's lines) */
+    caption?: TableCaption;
+}
+
+/**
+ * MultiMarkdown table caption (`[Caption][label]`)
+ */
+export interface TableCaption {
+    /** Caption text */
+    text: string;
+    /** Optional label used for cross references */
+    label?: string;
+    /** Whether the caption line is above or below the table */
+    position: 'above' | 'below';
+}
+
+/**
+ * Options for finding tables in a document
+ */
+export interface TableParseOptions {
+    /** Table syntaxes to detect (defaults to all of them) */
+    dialects?: TableDialectName[];
+    /**
+     * Read pipe tables as MultiMarkdown: a cell followed by several pipes spans that many columns,
+     * all rows above the separator are header rows, and a `[Caption]` line may precede or follow the table
+     */
+    multiMarkdown?: boolean;
+}
+
+/**
+ * Outer pipe style of a table (GFM allows omitting either or both)
+ */
+export interface PipeStyle {
+    /** Rows start with `|` */
+    leading: boolean;
+    /** Rows end with `|` */
+    trailing: boolean;
+}
+
+/**
+ * Options for converting table data to Markdown
+ */
+export interface MarkdownTableOptions {
+    /** Column alignments to write into the separator row (missing entries are 'none') */
+    alignments?: ColumnAlignment[];
+    /** Outer pipe style to write (defaults to leading and trailing pipes) */
+    pipeStyle?: PipeStyle;
+    /** Line ending to join rows with (defaults to `\n`) */
+    eol?: LineEnding;
+    /** Write cells without column padding and separators with three dashes */
+    compact?: boolean;
+    /** Number of header rows above the separator (defaults to 1; MultiMarkdown allows several) */
+    headerRowCount?: number;
+    /** Cells spanning several columns, written as MultiMarkdown `||` spans (row spans cannot be written) */
+    merges?: CellMerge[];
+}
+
+/**
+ * Raw cells of a table row, split on unescaped pipes
+ */
+interface RowCells {
+    /** Untrimmed cell contents, escapes left as written */
+    cells: string[];
+    leadingPipe: boolean;
+    trailingPipe: boolean;
+}
+
+/**
+ * Inline token of Markdown text, as far as pipe handling is concerned
+ */
+interface InlineToken {
+    /**
+     * 'code': a complete code span, 'escape': a backslash and the character it escapes,
+     * 'backticks': a backtick run that does not open a code span, 'pipe': a bare `|`,
+     * 'text': anything else
+     */
+    kind: 'code' | 'escape' | 'backticks' | 'pipe' | 'text';
+    text: string;
+    /** Offset of the token in the tokenized string */
+    start: number;
+}
+
+/**
+ * Tokenizes Markdown inline text just enough to tell which pipes separate cells.
+ * A backtick run opens a code span only if a run of the same length follows; pipes and
+ * backslashes inside code spans are literal. Outside code spans a backslash escapes the next character.
+ */
+function tokenizeInline(text: string): InlineToken[] {
+    const tokens: InlineToken[] = [];
+    let textStart = -1;
+
+    const flushText = (end: number) => {
+        if (textStart >= 0) {
+            tokens.push({ kind: 'text', text: text.slice(textStart, end), start: textStart });
+            textStart = -1;
+        }
+    };
+
+    let i = 0;
+    while (i < text.length) {
+        const char = text[i];
+
+        if (char === '\\' && i + 1 < text.length) {
+            flushText(i);
+            tokens.push({ kind: 'escape', text: text.slice(i, i + 2), start: i });
+            i += 2;
+        } else if (char === '|') {
+            flushText(i);
+            tokens.push({ kind: 'pipe', text: '|', start: i });
+            i++;
+        } else if (char === '`') {
+            flushText(i);
+            let runEnd = i;
+            while (text[runEnd] === '`') {
+                runEnd++;
+            }
+            const closeStart = findClosingBackticks(text, runEnd, runEnd - i);
+            if (closeStart >= 0) {
+                const end = closeStart + (runEnd - i);
+                tokens.push({ kind: 'code', text: text.slice(i, end), start: i });
+                i = end;
+            } else {
+                tokens.push({ kind: 'backticks', text: text.slice(i, runEnd), start: i });
+                i = runEnd;
+            }
+        } else {
+            if (textStart < 0) {
+                textStart = i;
+            }
+            i++;
+        }
+    }
+    flushText(text.length);
+
+    return tokens;
+}
+
+/**
+ * Finds the start of a backtick run of exactly `length` backticks at or after `from`, or -1
+ */
+function findClosingBackticks(text: string, from: number, length: number): number {
+    let i = from;
+    while (i < text.length) {
+        if (text[i] !== '`') {
+            i++;
+            continue;
+        }
+        let runEnd = i;
+        while (text[runEnd] === '`') {
+            runEnd++;
+        }
+        if (runEnd - i === length) {
+            return i;
+        }
+        i = runEnd;
+    }
+    return -1;
+}
+
+/**
+ * Splits a row on unescaped pipes outside code spans. Leading and trailing pipes are
+ * optional, but the line must contain at least one such pipe.
+ */
+function splitRowCells(line: string): RowCells | null {
+    if (!line.includes('|')) {
+        return null;
+    }
+
+    const trimmed = line.trim();
+
+    // Collect positions of pipes that separate cells
+    const pipes = tokenizeInline(trimmed)
+        .filter(token => token.kind === 'pipe')
+        .map(token => token.start);
+
+    if (pipes.length === 0) {
+        return null;
+    }
+
+    const leadingPipe = pipes[0] === 0;
+    const trailingPipe = pipes[pipes.length - 1] === trimmed.length - 1 && !(leadingPipe && pipes.length === 1);
+
+    const boundaries = [...pipes];
+    if (!leadingPipe) {
+        boundaries.unshift(-1);
+    }
+    if (!trailingPipe) {
+        boundaries.push(trimmed.length);
+    }
+
+    const cells: string[] = [];
+    for (let i = 0; i < boundaries.length - 1; i++) {
+        cells.push(trimmed.slice(boundaries[i] + 1, boundaries[i + 1]));
+    }
+
+    return { cells, leadingPipe, trailingPipe };
 }
 
 /**
  * Parses a single table row and extracts cell values
  */
 export function parseTableRow(line: string): string[] | null {
-    const trimmed = line.trim();
+    const row = splitRowCells(line);
+    if (!row) {
+        return null;
+    }
+
+    return row.cells.map(cell => unescapePipeInCell(cell).trim());
+}
 
-    // Table rows must start and end with |
-    if (!trimmed.startsWith('|') || !trimmed.endsWith('|')) {
+/**
+ * Parses a MultiMarkdown table row, in which a cell followed by several pipes (`| a ||`)
+ * spans that many columns. The cells it spans over are returned empty.
+ */
+function parseMultiMarkdownRow(line: string): { cells: string[]; spans: Array<{ col: number; colSpan: number }> } | null {
+    const row = splitRowCells(line);
+    if (!row) {
         return null;
     }
 
-    // Remove leading and trailing |, then split by | (but not \|)
-    const content = trimmed.slice(1, -1);
+    const cells: string[] = [];
+    const spans: Array<{ col: number; colSpan: number }> = [];
+    let spanned: { col: number; colSpan: number } | null = null;
+    for (const raw of row.cells) {
+        // Nothing at all between two pipes (not even a space) continues the previous cell
+        if (raw === '' && cells.length > 0) {
+            spanned = spanned ?? { col: cells.length - 1, colSpan: 1 };
+            spanned.colSpan++;
+            cells.push('');
+            continue;
+        }
+        if (spanned) {
+            spans.push(spanned);
+            spanned = null;
+        }
+        cells.push(unescapePipeInCell(raw).trim());
+    }
+    if (spanned) {
+        spans.push(spanned);
+    }
 
-    // Use a placeholder for escaped pipes to preserve them during split
-    const PIPE_PLACEHOLDER = '\x00PIPE\x00';
-    const escaped = content.replace(/\\\|/g, PIPE_PLACEHOLDER);
-    const cells = escaped.split('|').map(cell => {
-        // Restore escaped pipes and trim
-        return cell.replace(new RegExp(PIPE_PLACEHOLDER, 'g'), '|').trim();
-    });
+    return { cells, spans };
+}
 
-    return cells;
+/**
+ * Turns \| back into | outside code spans (pipes inside code spans are written as-is)
+ */
+function unescapePipeInCell(raw: string): string {
+    return tokenizeInline(raw)
+        .map(token => (token.kind === 'escape' && token.text === '\\|' ? '|' : token.text))
+        .join('');
 }
 
 /**
  * Checks if a line is a separator row (e.g., |---|---|)
  */
 export function isSeparatorRow(line: string): boolean {
-    const trimmed = line.trim();
-
-    if (!trimmed.startsWith('|') || !trimmed.endsWith('|')) {
+    const row = splitRowCells(line);
+    if (!row) {
         return false;
     }
 
-    const content = trimmed.slice(1, -1);
-    const cells = content.split('|');
-
     // Each cell should only contain dashes, colons, and spaces
-    return cells.every(cell => /^[\s:-]+$/.test(cell) && cell.includes('-'));
+    return row.cells.every(cell => /^[\s:-]+$/.test(cell) && cell.includes('-'));
+}
+
+/**
+ * Parses the alignment of each column from a separator row (e.g., |:---|:---:|---:|)
+ */
+export function parseAlignmentRow(line: string): ColumnAlignment[] {
+    const row = splitRowCells(line);
+    if (!row) {
+        return [];
+    }
+
+    return row.cells.map(cell => {
+        const trimmed = cell.trim();
+        const left = trimmed.startsWith(':');
+        const right = trimmed.endsWith(':');
+        if (left && right) {
+            return 'center';
+        }
+        if (left) {
+            return 'left';
+        }
+        if (right) {
+            return 'right';
+        }
+        return 'none';
+    });
 }
 
 /**
  * Checks if a line is a valid table row
  */
 export function isTableRow(line: string): boolean {
-    const trimmed = line.trim();
-    return trimmed.startsWith('|') && trimmed.endsWith('|');
+    return splitRowCells(line) !== null;
+}
+
+/**
+ * Detects whether a row is written with leading and/or trailing pipes
+ */
+export function getPipeStyle(line: string): PipeStyle {
+    const row = splitRowCells(line);
+    return {
+        leading: row?.leadingPipe ?? true,
+        trailing: row?.trailingPipe ?? true
+    };
+}
+
+/**
+ * Detects the line ending of text from its first line break (`\n` if there is none)
+ */
+export function detectLineEnding(text: string): LineEnding {
+    const index = text.indexOf('\n');
+    return index > 0 && text[index - 1] === '\r' ? '\r\n' : '\n';
 }
 
 /**
- * Parses all Markdown tables in the given document text
+ * Splits text into lines, accepting both LF and CRLF line endings
  */
-export function parseMarkdownTables(text: string): TableInfo[] {
-    const lines = text.split('\n');
+function splitLines(text: string): string[] {
+    return text.split(/\r?\n/);
+}
+
+/**
+ * Returns the container prefix of a line: blockquote markers and indentation
+ * (e.g. `> `, `> > ` or the indentation of a list item's content)
+ */
+export function getLinePrefix(line: string): string {
+    return /^([ \t]*>[ \t]?)*[ \t]*/.exec(line)![0];
+}
+
+/**
+ * Checks if two line prefixes belong to the same container (same blockquote nesting)
+ */
+function isSamePrefix(a: string, b: string): boolean {
+    return a.replace(/[ \t]/g, '') === b.replace(/[ \t]/g, '');
+}
+
+/**
+ * Removes the container prefix from every line of a table's text
+ */
+export function removeLinePrefixes(text: string): string {
+    return splitLines(text)
+        .map(line => line.slice(getLinePrefix(line).length))
+        .join(detectLineEnding(text));
+}
+
+/**
+ * Removes a table's container prefix from every line of its text,
+ * keeping any indentation beyond the prefix (which is significant in simple tables)
+ */
+function removeTablePrefix(text: string, prefix: string): string {
+    const indent = prefix.slice(getBlockquotePrefix(prefix).length);
+    return splitLines(text)
+        .map(line => line.slice(getBlockquotePrefix(line).length).slice(indent.length))
+        .join(detectLineEnding(text));
+}
+
+/**
+ * Adds a container prefix to every line of a table's text
+ */
+export function addLinePrefix(text: string, prefix: string): string {
+    if (prefix === '') {
+        return text;
+    }
+    return splitLines(text)
+        .map(line => prefix + line)
+        .join(detectLineEnding(text));
+}
+
+/**
+ * Parses all Markdown tables in the given document text.
+ * Tables inside front matter, code blocks and HTML blocks are ignored.
+ * Tables nested in blockquotes or list items are found as long as every line has the same prefix.
+ */
+export function parseMarkdownTables(text: string, options: TableParseOptions = {}): TableInfo[] {
+    const eol = detectLineEnding(text);
+    const lines = splitLines(text);
+    const blockKinds = classifyLines(lines);
+    const isText = (lineIndex: number) => blockKinds[lineIndex] === 'text';
+    const prefixes = lines.map(line => getLinePrefix(line));
+    const content = (lineIndex: number) => lines[lineIndex].slice(prefixes[lineIndex].length);
+    const enabledDialects = options.dialects ?? DEFAULT_TABLE_DIALECTS;
+    const dialects = TABLE_DIALECTS.filter(dialect => enabledDialects.includes(dialect.name));
+    const textDialects = dialects.filter(dialect => dialect !== htmlTableDialect);
     const tables: TableInfo[] = [];
 
+    // Other dialects read lines without blockquote markers but keep their indentation,
+    // and may not read past the run of text lines in the same blockquote
+    // (HTML tables may contain blank lines and other blocks, but stay in the same blockquote)
+    const quotePrefixes = lines.map(line => getBlockquotePrefix(line));
+    const unquoted = lines.map((line, lineIndex) => line.slice(quotePrefixes[lineIndex].length));
+    const blockEnds: number[] = new Array(lines.length);
+    const quoteEnds: number[] = new Array(lines.length);
+    for (let lineIndex = lines.length - 1; lineIndex >= 0; lineIndex--) {
+        const sameQuote = lineIndex + 1 < lines.length && isSamePrefix(quotePrefixes[lineIndex + 1], quotePrefixes[lineIndex]);
+        blockEnds[lineIndex] = sameQuote && isText(lineIndex + 1) ? blockEnds[lineIndex + 1] : lineIndex + 1;
+        quoteEnds[lineIndex] = sameQuote ? quoteEnds[lineIndex + 1] : lineIndex + 1;
+    }
+
+    const findDialectTable = (startLine: number, candidates: TableDialect[], blockEnd: number): TableInfo | null => {
+        for (const dialect of candidates) {
+            const found = dialect.parse(unquoted, startLine, blockEnd);
+            if (!found) {
+                continue;
+            }
+            const endLine = startLine + found.lineCount - 1;
+            // The indentation shared by every line (e.g. of a list item) is part of the prefix
+            const indent = unquoted.slice(startLine, endLine + 1)
+                .filter(line => line.trim() !== '')
+                .map(line => /^[ \t]*/.exec(line)![0])
+                .reduce((shortest, current) => current.length < shortest.length ? current : shortest);
+            return {
+                startLine,
+                endLine,
+                data: found.data,
+                alignments: found.alignments,
+                pipeStyle: { leading: true, trailing: true },
+                prefix: quotePrefixes[startLine] + indent,
+                eol,
+                rawText: lines.slice(startLine, endLine + 1).join(eol),
+                dialect: dialect.name,
+                headerRowCount: found.headerRowCount,
+                merges: found.merges
+            };
+        }
+        return null;
+    };
+
     let i = 0;
     while (i < lines.length) {
+        if (!isText(i)) {
+            let dialectTable: TableInfo | null = null;
+            if (blockKinds[i] === 'html') {
+                dialectTable = findDialectTable(i, dialects.filter(dialect => dialect === htmlTableDialect), quoteEnds[i]);
+            } else if (blockKinds[i] === 'indentedCode' && i + 1 < lines.length && isText(i + 1) &&
+                isSamePrefix(quotePrefixes[i], quotePrefixes[i + 1])) {
+                // The header of a simple table with a right-aligned first column can be indented
+                // by four or more columns, which CommonMark alone would read as indented code
+                dialectTable = findDialectTable(i, dialects.filter(dialect => dialect === simpleTableDialect), blockEnds[i + 1]);
+            }
+            if (dialectTable) {
+                tables.push(dialectTable);
+                i = dialectTable.endLine + 1;
+            } else {
+                i++;
+            }
+            continue;
+        }
+
+        const dialectTable = findDialectTable(i, textDialects, blockEnds[i]);
+        if (dialectTable) {
+            tables.push(dialectTable);
+            i = dialectTable.endLine + 1;
+            continue;
+        }
+
         // Look for potential table start (a line with |)
-        if (!isTableRow(lines[i])) {
+        if (!enabledDialects.includes('pipe') || !isTableRow(content(i))) {
             i++;
             continue;
         }
 
         // Check if this could be a table header followed by separator
-        const headerRow = parseTableRow(lines[i]);
+        const parseRow = (lineIndex: number) => {
+            if (options.multiMarkdown) {
+                return parseMultiMarkdownRow(content(lineIndex));
+            }
+            const cells = parseTableRow(content(lineIndex));
+            return cells ? { cells, spans: [] } : null;
+        };
+        const headerRow = parseRow(i);
         if (!headerRow) {
             i++;
             continue;
         }
 
-        // Next line should be separator
-        if (i + 1 >= lines.length || !isSeparatorRow(lines[i + 1])) {
+        // Next line should be separator with the same prefix and number of cells
+        // (in MultiMarkdown, every row above the separator is a header row)
+        const prefix = prefixes[i];
+        const continuesTable = (lineIndex: number) =>
+            lineIndex < lines.length && isText(lineIndex) && isSamePrefix(prefixes[lineIndex], prefix);
+        let separatorLine = i + 1;
+        while (options.multiMarkdown && continuesTable(separatorLine) &&
+            isTableRow(content(separatorLine)) && !isSeparatorRow(content(separatorLine))) {
+            separatorLine++;
+        }
+        if (!continuesTable(separatorLine) || !isSeparatorRow(content(separatorLine)) ||
+            parseAlignmentRow(content(separatorLine)).length !== headerRow.cells.length) {
             i++;
             continue;
         }
 
         // Found a valid table start
-        const startLine = i;
-        const tableData: string[][] = [headerRow];
+        let startLine = i;
+        const tableData: string[][] = [];
+        const merges: CellMerge[] = [];
+        const addRow = (row: { cells: string[]; spans: Array<{ col: number; colSpan: number }> }) => {
+            merges.push(...row.spans.map(span => ({ row: tableData.length, col: span.col, rowSpan: 1, colSpan: span.colSpan })));
+            tableData.push(row.cells);
+        };
+        for (let headerLine = i; headerLine < separatorLine; headerLine++) {
+            addRow(parseRow(headerLine) ?? { cells: [], spans: [] });
+        }
+        const headerRowCount = tableData.length;
+        const alignments = parseAlignmentRow(content(separatorLine));
+        const pipeStyle = getPipeStyle(content(i));
 
         // Skip header and separator
-        i += 2;
+        i = separatorLine + 1;
 
         // Parse remaining data rows
-        while (i < lines.length && isTableRow(lines[i]) && !isSeparatorRow(lines[i])) {
-            const row = parseTableRow(lines[i]);
+        while (continuesTable(i) && isTableRow(content(i)) && !isSeparatorRow(content(i))) {
+            const row = parseRow(i);
             if (row) {
-                tableData.push(row);
+                addRow(row);
             }
             i++;
         }
 
+        // MultiMarkdown caption on the line above or below
+        let caption: TableCaption | undefined;
+        if (options.multiMarkdown) {
+            // (a caption line between two tables belongs to the first one)
+            const previousTableEnd = tables.length > 0 ? tables[tables.length - 1].endLine : -1;
+            const captionAbove = startLine - 1 > previousTableEnd && isText(startLine - 1) &&
+                isSamePrefix(prefixes[startLine - 1], prefix) ? CAPTION_LINE.exec(content(startLine - 1)) : null;
+            const captionBelow = !captionAbove && continuesTable(i) ? CAPTION_LINE.exec(content(i)) : null;
+            const captionMatch = captionAbove ?? captionBelow;
+            if (captionMatch) {
+                caption = { text: captionMatch[1].trim(), position: captionAbove ? 'above' : 'below' };
+                if (captionMatch[2]) {
+                    caption.label = captionMatch[2];
+                }
+            }
+            if (captionAbove) {
+                startLine--;
+            } else if (captionBelow) {
+                i++;
+            }
+        }
+
         const endLine = i - 1;
-        const rawText = lines.slice(startLine, endLine + 1).join('\n');
+        const rawText = lines.slice(startLine, endLine + 1).join(eol);
 
-        tables.push({
+        const table: TableInfo = {
             startLine,
             endLine,
             data: tableData,
-            rawText
-        });
+            alignments,
+            pipeStyle,
+            prefix,
+            eol,
+            rawText,
+            dialect: 'pipe',
+            headerRowCount
+        };
+        if (options.multiMarkdown) {
+            table.multiMarkdown = true;
+            table.merges = merges;
+            if (caption) {
+                table.caption = caption;
+            }
+        }
+
+        tables.push(table);
+    }
+
+    // Output style and id comments directly above a table, in any order
+    for (const table of tables) {
+        for (let lineIndex = table.startLine - 1; lineIndex >= 0 && isSamePrefix(prefixes[lineIndex], prefixes[table.startLine]); lineIndex--) {
+            const styleComment = TABLE_STYLE_COMMENT.exec(content(lineIndex));
+            const idComment = TABLE_ID_COMMENT.exec(content(lineIndex));
+            if (styleComment) {
+                table.outputStyle = table.outputStyle ?? styleComment[1] as TableOutputStyle;
+            } else if (idComment) {
+                table.anchor = table.anchor ?? idComment[1];
+            } else {
+                break;
+            }
+        }
     }
 
     return tables;
 }
 
 /**
- * Escapes pipe characters in cell content for Markdown table output
+ * Escapes pipe characters in cell content for Markdown table output.
+ * Pipes inside code spans and already escaped pipes are left alone.
+ * With `escapeBackticks`, backticks that do not form a code span are escaped too,
+ * so they cannot pair up with a backtick in another cell of the same row.
  */
-function escapePipeInCell(value: string): string {
-    return value.replace(/\|/g, '\\|');
+function escapePipeInCell(value: string, escapeBackticks: boolean = false): string {
+    return tokenizeInline(value)
+        .map(token => {
+            if (token.kind === 'pipe') {
+                return '\\|';
+            }
+            if (token.kind === 'backticks' && escapeBackticks) {
+                return token.text.replace(/`/g, '\\`');
+            }
+            return token.text;
+        })
+        .join('');
 }
 
 /**
- * Converts table data back to Markdown format
+ * Escapes all cells of a row so that the written row splits back into the same cells
  */
-export function tableToMarkdown(data: string[][]): string {
+function escapeRowCells(row: string[]): string[] {
+    const escaped = row.map(cell => escapePipeInCell(cell));
+    const probe = parseTableRow('| ' + escaped.join(' | ') + ' |');
+    if (probe && probe.length === row.length && probe.every((cell, col) => cell === row[col].trim())) {
+        return escaped;
+    }
+    return row.map(cell => escapePipeInCell(cell, true));
+}
+
+/**
+ * Builds a single separator cell of the given width with alignment colons
+ */
+function formatSeparatorCell(alignment: ColumnAlignment, width: number): string {
+    switch (alignment) {
+        case 'left':
+            return ':' + '-'.repeat(width - 1);
+        case 'right':
+            return '-'.repeat(width - 1) + ':';
+        case 'center':
+            return ':' + '-'.repeat(width - 2) + ':';
+        default:
+            return '-'.repeat(width);
+    }
+}
+
+/**
+ * Decides the outer pipes to write. Pipes are kept whenever omitting them would
+ * change the parse: single-column tables and empty first/last cells need them.
+ */
+function resolvePipeStyle(data: string[][], columnCount: number, style: PipeStyle = { leading: true, trailing: true }): PipeStyle {
+    if (columnCount <= 1) {
+        return { leading: true, trailing: true };
+    }
+    return {
+        leading: style.leading || data.some(row => (row[0] ?? '') === ''),
+        trailing: style.trailing || data.some(row => (row[columnCount - 1] ?? '') === '')
+    };
+}
+
+/**
+ * Joins already padded cells into a row line using the given pipe style.
+ * A cell with a span of more than one column is followed by that many pipes (MultiMarkdown).
+ */
+function joinRowCells(cells: string[], style: PipeStyle, spans: number[] = []): string {
+    const pipesAfter = (index: number) => '|'.repeat(spans[index] ?? 1);
+    const line = (style.leading ? '| ' : '') +
+        cells.map((cell, index) => (index < cells.length - 1 ? `${cell} ${pipesAfter(index)} ` : cell)).join('') +
+        (style.trailing ? ' ' + pipesAfter(cells.length - 1) : '');
+    return style.trailing ? line : line.trimEnd();
+}
+
+/**
+ * Returns the number of columns each cell spans: more than 1 where a merge starts,
+ * 0 for the cells a merge covers, 1 elsewhere. Only column spans are taken into account.
+ */
+function getColumnSpans(rowCount: number, columnCount: number, merges: CellMerge[] = []): number[][] {
+    const spans = Array.from({ length: rowCount }, () => new Array<number>(columnCount).fill(1));
+    for (const merge of merges) {
+        if (merge.colSpan < 2 || merge.row >= rowCount || merge.col + merge.colSpan > columnCount) {
+            continue;
+        }
+        spans[merge.row][merge.col] = merge.colSpan;
+        for (let col = merge.col + 1; col < merge.col + merge.colSpan; col++) {
+            spans[merge.row][col] = 0;
+        }
+    }
+    return spans;
+}
+
+/**
+ * Checks if every line of a table has the same display width, i.e. its columns are aligned
+ */
+function isAlignedTable(lines: string[]): boolean {
+    const tableWidth = getDisplayWidth(lines[0].trimEnd());
+    return lines.every(line => getDisplayWidth(line.trimEnd()) === tableWidth);
+}
+
+/**
+ * Converts table data back to Markdown format.
+ * Columns are padded to the same width (following their alignment) unless `compact` is set.
+ */
+export function tableToMarkdown(data: string[][], options: MarkdownTableOptions = {}): string {
     if (data.length === 0) {
         return '';
     }
 
-    // Calculate max width for each column (after escaping)
+    // Calculate max display width for each column (after escaping)
     const columnCount = Math.max(...data.map(row => row.length));
+    const alignments = options.alignments ?? [];
+    const headerRowCount = Math.min(Math.max(1, options.headerRowCount ?? 1), data.length);
+    const columnSpans = getColumnSpans(data.length, columnCount, options.merges);
+    const pipeStyle = resolvePipeStyle(data, columnCount, options.pipeStyle);
+    // A span reaching the last column ends with its pipes
+    if (columnSpans.some(spans => spans[columnCount - 1] === 0)) {
+        pipeStyle.trailing = true;
+    }
+    const escapedData = data.map(row =>
+        escapeRowCells(Array.from({ length: columnCount }, (_, col) => (col < row.length ? row[col] : '')))
+    );
     const columnWidths: number[] = [];
 
     for (let col = 0; col < columnCount; col++) {
         let maxWidth = 3; // Minimum width of 3 for separator
-        for (const row of data) {
-            if (col < row.length) {
-                const escaped = escapePipeInCell(row[col]);
-                maxWidth = Math.max(maxWidth, escaped.length);
-            }
+        if (!options.compact) {
+            escapedData.forEach((row, rowIndex) => {
+                if (columnSpans[rowIndex][col] === 1) {
+                    maxWidth = Math.max(maxWidth, getDisplayWidth(row[col]));
+                }
+            });
         }
         columnWidths.push(maxWidth);
     }
 
+    // A spanning cell gets the width of its columns plus the pipes and padding between them;
+    // if that is not enough, its last column is widened
+    const spanWidth = (col: number, span: number) =>
+        columnWidths.slice(col, col + span).reduce((sum, width) => sum + width, 0) + 2 * (span - 1);
+    if (!options.compact) {
+        escapedData.forEach((row, rowIndex) => columnSpans[rowIndex].forEach((span, col) => {
+            if (span > 1) {
+                columnWidths[col + span - 1] += Math.max(0, getDisplayWidth(row[col]) - spanWidth(col, span));
+            }
+        }));
+    }
+
     const lines: string[] = [];
 
-    for (let rowIndex = 0; rowIndex < data.length; rowIndex++) {
-        const row = data[rowIndex];
+    for (let rowIndex = 0; rowIndex < escapedData.length; rowIndex++) {
         const cells: string[] = [];
+        const spans: number[] = [];
+        escapedData[rowIndex].forEach((cell, col) => {
+            const span = columnSpans[rowIndex][col];
+            if (span === 0) {
+                return;
+            }
+            cells.push(options.compact ? cell : padToAlignment(cell, spanWidth(col, span), alignments[col] ?? 'none'));
+            spans.push(span);
+        });
 
-        for (let col = 0; col < columnCount; col++) {
-            const cellValue = col < row.length ? row[col] : '';
-            const escaped = escapePipeInCell(cellValue);
-            cells.push(escaped.padEnd(columnWidths[col]));
+        lines.push(joinRowCells(cells, pipeStyle, spans));
+
+        // Add separator after the header row(s)
+        if (rowIndex === headerRowCount - 1) {
+            const separator = columnWidths.map((w, col) => formatSeparatorCell(alignments[col] ?? 'none', w));
+            lines.push(joinRowCells(separator, pipeStyle));
         }
+    }
 
-        lines.push('| ' + cells.join(' | ') + ' |');
+    return lines.join(options.eol ?? '\n');
+}
 
-        // Add separator after header row
-        if (rowIndex === 0) {
-            const separator = columnWidths.map(w => '-'.repeat(w)).join(' | ');
-            lines.push('| ' + separator + ' |');
-        }
+/**
+ * A table line split into the pieces that are kept verbatim when only some of its cells change
+ */
+interface LineSegments {
+    /** Whitespace before the row */
+    indent: string;
+    leadingPipe: boolean;
+    /** Raw text between the pipes, including the cell padding */
+    cells: string[];
+    trailingPipe: boolean;
+    /** Whitespace after the row */
+    trailingWhitespace: string;
+    /** Whether cells are separated from the pipes by spaces (`| a | b |` rather than `|a|b|`) */
+    spaced: boolean;
+}
+
+/**
+ * Splits a table line into its segments
+ */
+function splitLineSegments(line: string): LineSegments {
+    const row = splitRowCells(line) ?? { cells: [], leadingPipe: true, trailingPipe: true };
+    const trimmed = line.trim();
+    return {
+        indent: /^\s*/.exec(line)![0],
+        leadingPipe: row.leadingPipe,
+        cells: row.cells,
+        trailingPipe: row.trailingPipe,
+        trailingWhitespace: trimmed === '' ? '' : /\s*$/.exec(line)![0],
+        spaced: /\s\||\|\s/.test(trimmed)
+    };
+}
+
+/**
+ * Replaces the content of a raw cell segment, keeping its padding.
+ * With `keepWidth` the segment keeps its display width where the new text fits,
+ * so that the pipes of a column-aligned table stay in place.
+ */
+function rewriteCellSegment(segment: string, text: string, keepWidth: boolean): string {
+    // An empty cell's whitespace counts as padding after the text
+    const lead = segment.trim() === '' ? segment.slice(0, Math.min(1, segment.length)) : /^\s*/.exec(segment)![0];
+    const trail = segment.slice(lead.length).trim() === '' ? segment.slice(lead.length) : /\s*$/.exec(segment)![0];
+    if (!keepWidth) {
+        return lead + text + trail;
     }
 
-    return lines.join('\n');
+    const padding = getDisplayWidth(segment) - getDisplayWidth(text);
+    if (lead.length > trail.length) {
+        // Right-justified cell: absorb the width change on the left
+        return ' '.repeat(Math.max(Math.min(lead.length, 1), padding - trail.length)) + text + trail;
+    }
+    return lead + text + ' '.repeat(Math.max(Math.min(trail.length, 1), padding - lead.length));
 }
 
 /**
- * Converts table data back to Markdown format, preserving original formatting for unchanged rows.
- * This minimizes diffs when saving tables.
+ * Joins cell segments back into a line. Segments that were at the unpiped edge of their
+ * original line are expected to have been given spacing on both sides; it is trimmed again
+ * wherever a segment ends up at an unpiped edge.
  */
-export function tableToMarkdownPreserveFormat(data: string[][], originalRawText: string, originalData: string[][]): string {
+function joinLineSegments(line: LineSegments, cells: string[]): string {
+    const segments = cells.map((cell, index) => {
+        let segment = cell;
+        if (index === 0 && !line.leadingPipe) {
+            segment = segment.trimStart();
+        }
+        if (index === cells.length - 1 && !line.trailingPipe) {
+            return segment.trimEnd();
+        }
+        // A backslash right before a pipe would escape it
+        return segment.endsWith('\\') ? segment + ' ' : segment;
+    });
+    return line.indent + (line.leadingPipe ? '|' : '') + segments.join('|') + (line.trailingPipe ? '|' : '') + line.trailingWhitespace;
+}
+
+/**
+ * Converts table data back to Markdown format, changing as little of the original text as possible.
+ * Unchanged rows are kept as they were, also when they moved, and in changed rows only the changed cells
+ * are rewritten, keeping the row's spacing. Inserted and deleted columns only add or remove their own cell
+ * in each line. In a column-aligned table, columns whose width changed are realigned.
+ */
+export function tableToMarkdownPreserveFormat(
+    data: string[][],
+    originalRawText: string,
+    originalData: string[][],
+    options: MarkdownTableOptions = {}
+): string {
     if (data.length === 0) {
         return '';
     }
 
-    // Parse original lines (skip separator which is at index 1)
-    const originalLines = originalRawText.split('\n');
-    const originalDataLines: string[] = [];
-    for (let i = 0; i < originalLines.length; i++) {
-        if (i === 1) continue; // Skip separator row
-        if (isTableRow(originalLines[i]) && !isSeparatorRow(originalLines[i])) {
-            originalDataLines.push(originalLines[i]);
-        }
+    const originalLines = splitLines(originalRawText);
+    const eol = options.eol ?? detectLineEnding(originalRawText);
+    const originalSeparator = originalLines.length > 1 && isSeparatorRow(originalLines[1]) ? originalLines[1] : null;
+    if (!originalSeparator || originalData.length === 0) {
+        return tableToMarkdown(data, { ...options, eol });
     }
 
-    // Get original separator line
-    const originalSeparator = originalLines.length > 1 ? originalLines[1] : null;
+    // Header line followed by the body lines (the separator is handled on its own)
+    const originalRowLines = [originalLines[0], ...originalLines.slice(2).filter(line => isTableRow(line) && !isSeparatorRow(line))];
+
+    const columnCount = Math.max(...data.map(row => row.length));
+    const rows = data.map(row => Array.from({ length: columnCount }, (_, col) => (col < row.length ? row[col] : '')));
+    const escapedRows = rows.map(row => escapeRowCells(row));
+
+    // Keep the pipe style the table was written with, adding pipes only where the parse needs them
+    const pipeStyle = options.pipeStyle ?? getPipeStyle(originalLines[0]);
+    const rowPipeStyle = resolvePipeStyle(data, columnCount, pipeStyle);
 
-    // Check if column count changed
-    const newColumnCount = Math.max(...data.map(row => row.length));
-    const originalColumnCount = originalData.length > 0 ? Math.max(...originalData.map(row => row.length)) : 0;
-    const columnCountChanged = newColumnCount !== originalColumnCount;
+    // Match new columns to original columns by header and content
+    const originalColumnCount = Math.max(...originalData.map(row => row.length));
+    const oldColumnOf = matchSequences(originalColumnCount, columnCount, (oldCol, newCol) => {
+        let similarity = originalData[0][oldCol] === rows[0][newCol] ? originalData.length : 0;
+        for (let row = 1; row < Math.min(originalData.length, rows.length); row++) {
+            if ((originalData[row][oldCol] ?? '') === rows[row][newCol]) {
+                similarity++;
+            }
+        }
+        return similarity;
+    });
+
+    // Match new body rows to original body rows by the cells of matched columns
+    const oldRowOf = [0, ...matchSequences(originalData.length - 1, rows.length - 1, (oldRow, newRow) => {
+        let similarity = 0;
+        oldColumnOf.forEach((oldCol, newCol) => {
+            if (oldCol >= 0 && (originalData[oldRow + 1][oldCol] ?? '') === rows[newRow + 1][newCol]) {
+                similarity++;
+            }
+        });
+        return similarity;
+    }).map(oldRow => (oldRow < 0 ? -1 : oldRow + 1))];
+
+    // Rows moved out of order are not matched above; they keep their line if their cells did not change
+    const matchedOldRows = new Set(oldRowOf);
+    oldRowOf.forEach((oldRow, rowIndex) => {
+        if (oldRow >= 0 || !oldColumnOf.some(oldCol => oldCol >= 0)) {
+            return;
+        }
+        const moved = originalData.findIndex((originalRow, candidate) => candidate > 0 && !matchedOldRows.has(candidate) &&
+            oldColumnOf.every((oldCol, newCol) => oldCol < 0 || (originalRow[oldCol] ?? '') === rows[rowIndex][newCol]));
+        if (moved > 0) {
+            oldRowOf[rowIndex] = moved;
+            matchedOldRows.add(moved);
+        }
+    });
 
-    // If column count changed, regenerate everything
-    if (columnCountChanged) {
-        return tableToMarkdown(data);
+    const originalAlignments = parseAlignmentRow(originalSeparator);
+    const alignments = options.alignments ??
+        oldColumnOf.map(oldCol => (oldCol >= 0 ? originalAlignments[oldCol] ?? 'none' : 'none'));
+
+    // In a column-aligned table, rewritten cells keep their width and new cells are padded to their column;
+    // a column whose width changed is padded to its new width as a whole
+    const aligned = isAlignedTable(originalLines);
+    const columnWidths = Array.from({ length: columnCount }, (_, col) =>
+        Math.max(3, ...escapedRows.map(row => getDisplayWidth(row[col])))
+    );
+    const escapedOriginalRows = originalData.map(row => escapeRowCells(row));
+    const originalColumnWidths = Array.from({ length: originalColumnCount }, (_, col) =>
+        Math.max(3, ...escapedOriginalRows.map(row => getDisplayWidth(row[col] ?? '')))
+    );
+    const header = splitLineSegments(originalLines[0]);
+
+    // Rebuilds a line from its original segments; `cellText` is the new text of each cell,
+    // or null if the original segment of that cell can be kept
+    function rebuildLine(line: LineSegments, cellText: (newCol: number, oldCol: number) => string | null, newCell: (newCol: number) => string): string {
+        const edgeSpacing = line.spaced ? ' ' : '';
+        const originalCells = line.cells.map((cell, index) => {
+            const first = index === 0 && !line.leadingPipe ? edgeSpacing : '';
+            const last = index === line.cells.length - 1 && !line.trailingPipe ? edgeSpacing : '';
+            return first + cell + last;
+        });
+
+        const cells: string[] = [];
+        // Number of cells to write: a short row stays short while its missing cells are empty
+        let cellCount = 0;
+        for (let newCol = 0; newCol < columnCount; newCol++) {
+            const oldCol = oldColumnOf[newCol];
+            if (oldCol < 0) {
+                cells.push(newCell(newCol));
+                cellCount = newCol + 1;
+            } else if (oldCol < originalCells.length) {
+                const text = cellText(newCol, oldCol);
+                if (aligned && columnWidths[newCol] !== originalColumnWidths[oldCol]) {
+                    cells.push(newCell(newCol));
+                } else {
+                    cells.push(text === null ? originalCells[oldCol] : rewriteCellSegment(originalCells[oldCol], text, aligned));
+                }
+                cellCount = newCol + 1;
+            } else {
+                const text = cellText(newCol, oldCol);
+                cells.push(newCell(newCol));
+                if (text !== null && text !== '') {
+                    cellCount = newCol + 1;
+                }
+            }
+        }
+        cells.length = Math.max(cellCount, 1);
+
+        return joinLineSegments({
+            ...line,
+            leadingPipe: line.leadingPipe || (rowPipeStyle.leading && !pipeStyle.leading),
+            trailingPipe: line.trailingPipe || (rowPipeStyle.trailing && !pipeStyle.trailing)
+        }, cells);
     }
 
-    // Helper function to check if a row's data matches original
-    function rowMatchesOriginal(rowIndex: number): boolean {
-        if (rowIndex >= originalData.length) return false;
-        const newRow = data[rowIndex];
-        const origRow = originalData[rowIndex];
-        if (newRow.length !== origRow.length) return false;
-        return newRow.every((cell, i) => cell === origRow[i]);
+    function formatRowLine(rowIndex: number): string {
+        const oldRow = oldRowOf[rowIndex];
+        const original = oldRow >= 0 && oldRow < originalRowLines.length ? originalRowLines[oldRow] : null;
+        // Inserted rows take their layout from the header line
+        const line = original !== null ? splitLineSegments(original) : { ...header, trailingWhitespace: '' };
+        const oldValues = original !== null ? parseTableRow(original) ?? [] : [];
+        const escaped = escapedRows[rowIndex];
+        const spacing = line.spaced ? ' ' : '';
+
+        const result = rebuildLine(
+            line,
+            (newCol, oldCol) => (original !== null && (oldValues[oldCol] ?? '') === rows[rowIndex][newCol] ? null : escaped[newCol]),
+            newCol => spacing + (aligned ? padToAlignment(escaped[newCol], columnWidths[newCol], alignments[newCol] ?? 'none') : escaped[newCol]) + spacing
+        );
+
+        // Fall back to a freshly formatted row if keeping segments would change how the row parses
+        const parsed = parseTableRow(result) ?? [];
+        if (rows[rowIndex].every((cell, col) => (parsed[col] ?? '') === cell) && parsed.length <= columnCount) {
+            return result;
+        }
+        return joinRowCells(escaped, rowPipeStyle) + line.trailingWhitespace;
     }
 
-    // Helper function to format a single row with minimal padding
-    function formatRow(row: string[]): string {
-        const cells = row.map(cell => ` ${escapePipeInCell(cell)} `);
-        return '|' + cells.join('|') + '|';
+    function formatSeparatorLine(): string {
+        const line = splitLineSegments(originalSeparator!);
+        const spacing = line.spaced ? ' ' : '';
+        // Without spaces, separator cells span the padding of the header cells
+        const extraWidth = !line.spaced && header.spaced ? 2 : 0;
+
+        return rebuildLine(
+            line,
+            (newCol, oldCol) => {
+                const alignment = alignments[newCol] ?? 'none';
+                if (alignment === (originalAlignments[oldCol] ?? 'none')) {
+                    return null;
+                }
+                return formatSeparatorCell(alignment, Math.max(3, (line.cells[oldCol] ?? '').trim().length));
+            },
+            newCol => spacing + formatSeparatorCell(alignments[newCol] ?? 'none', aligned ? columnWidths[newCol] + extraWidth : 3) + spacing
+        );
     }
 
     const lines: string[] = [];
-
-    for (let rowIndex = 0; rowIndex < data.length; rowIndex++) {
-        if (rowMatchesOriginal(rowIndex) && rowIndex < originalDataLines.length) {
-            // Use original line formatting
-            lines.push(originalDataLines[rowIndex]);
-        } else {
-            // Format the changed row with minimal padding
-            lines.push(formatRow(data[rowIndex]));
+    for (let rowIndex = 0; rowIndex < rows.length; rowIndex++) {
+        lines.push(formatRowLine(rowIndex));
+        if (rowIndex === 0) {
+            lines.push(formatSeparatorLine());
         }
+    }
 
-        // Add separator after header row
-        if (rowIndex === 0) {
-            if (originalSeparator && !columnCountChanged) {
-                lines.push(originalSeparator);
-            } else {
-                // Generate new separator
-                const separator = data[0].map(() => '---').join(' | ');
-                lines.push('| ' + separator + ' |');
-            }
+    return lines.join(eol);
+}
+
+/**
+ * Preserve-format output for MultiMarkdown tables with column spans or several header rows.
+ * Rows whose cells and spans did not change keep their original line and the others are
+ * written compactly; a column-aligned table is realigned as a whole.
+ */
+function multiMarkdownPreserveFormat(
+    data: string[][],
+    originalRawText: string,
+    original: Pick<TableInfo, 'data' | 'alignments' | 'headerRowCount' | 'merges'>,
+    options: MarkdownTableOptions
+): string {
+    const originalLines = splitLines(originalRawText);
+    const formatOptions: MarkdownTableOptions = {
+        ...options,
+        pipeStyle: options.pipeStyle ?? getPipeStyle(originalLines[0]),
+        eol: options.eol ?? detectLineEnding(originalRawText)
+    };
+    if (data.length === 0 || isAlignedTable(originalLines)) {
+        return tableToMarkdown(data, formatOptions);
+    }
+
+    const headerRowCount = Math.min(Math.max(1, options.headerRowCount ?? 1), data.length);
+    const written = splitLines(tableToMarkdown(data, { ...formatOptions, eol: '\n', compact: true }));
+    const lineOf = (rowIndex: number, headerRows: number) => (rowIndex < headerRows ? rowIndex : rowIndex + 1);
+    const rowKey = (rows: string[][], merges: CellMerge[] = [], rowIndex: number) => JSON.stringify([
+        rows[rowIndex],
+        merges.filter(merge => merge.row === rowIndex && merge.colSpan > 1).map(merge => [merge.col, merge.colSpan])
+    ]);
+    const isSameRow = (oldRow: number, newRow: number) =>
+        rowKey(original.data, original.merges, oldRow) === rowKey(data, options.merges, newRow);
+
+    const oldRowOf = matchSequences(original.data.length, data.length, (oldRow, newRow) => (isSameRow(oldRow, newRow) ? 1 : 0));
+    const lines = data.map((_, rowIndex) => {
+        const oldRow = oldRowOf[rowIndex];
+        return oldRow >= 0 && isSameRow(oldRow, rowIndex)
+            ? originalLines[lineOf(oldRow, original.headerRowCount)]
+            : written[lineOf(rowIndex, headerRowCount)];
+    });
+
+    const alignments = options.alignments ?? [];
+    const columnCount = Math.max(...data.map(row => row.length));
+    const sameColumns = columnCount === original.alignments.length &&
+        original.alignments.every((alignment, col) => alignment === (alignments[col] ?? 'none'));
+    lines.splice(headerRowCount, 0, sameColumns ? originalLines[original.headerRowCount] : written[headerRowCount]);
+
+    return lines.join(formatOptions.eol);
+}
+
+/**
+ * Converts edited table data back to Markdown in the given output style.
+ * 'aligned' and 'compact' rewrite the whole table, keeping its pipe style and line ending.
+ */
+export function tableToMarkdownWithStyle(
+    data: string[][],
+    originalRawText: string,
+    originalData: string[][],
+    style: TableOutputStyle,
+    options: MarkdownTableOptions = {}
+): string {
+    if (style === 'preserve') {
+        return tableToMarkdownPreserveFormat(data, originalRawText, originalData, options);
+    }
+    return tableToMarkdown(data, {
+        ...options,
+        pipeStyle: options.pipeStyle ?? getPipeStyle(splitLines(originalRawText)[0]),
+        eol: options.eol ?? detectLineEnding(originalRawText),
+        compact: style === 'compact'
+    });
+}
+
+/**
+ * Checks if edited table data and alignments are the same as the original ones
+ */
+function isTableUnchanged(data: string[][], alignments: ColumnAlignment[], merges: CellMerge[], table: TableInfo): boolean {
+    const columnCount = Math.max(alignments.length, table.alignments.length);
+    for (let col = 0; col < columnCount; col++) {
+        if ((alignments[col] ?? 'none') !== (table.alignments[col] ?? 'none')) {
+            return false;
         }
     }
+    if (JSON.stringify(merges) !== JSON.stringify(table.merges ?? [])) {
+        return false;
+    }
+    return data.length === table.data.length && data.every((row, rowIndex) =>
+        row.length === table.data[rowIndex].length && row.every((cell, col) => cell === table.data[rowIndex][col]));
+}
+
+/**
+ * Converts edited table data back to Markdown in the dialect the table was written in,
+ * including the table's container prefix.
+ * The output style applies to pipe tables; other dialects are left untouched unless the data changed.
+ */
+export function serializeTable(
+    data: string[][],
+    table: TableInfo,
+    style: TableOutputStyle,
+    options: { alignments: ColumnAlignment[]; eol: LineEnding; merges?: CellMerge[]; caption?: string }
+): string {
+    const dialect = TABLE_DIALECTS.find(candidate => candidate.name === table.dialect);
+    if (!dialect) {
+        return serializePipeTable(data, table, style, options);
+    }
 
-    return lines.join('\n');
+    const merges = options.merges ?? [];
+    if (isTableUnchanged(data, options.alignments, merges, table)) {
+        return splitLines(table.rawText).join(options.eol);
+    }
+    const markdown = dialect.serialize(data, {
+        alignments: options.alignments,
+        headerRowCount: table.headerRowCount,
+        eol: options.eol,
+        merges,
+        originalRawText: removeTablePrefix(table.rawText, table.prefix)
+    });
+    return addLinePrefix(markdown, table.prefix);
 }
 
+/**
+ * Writes a pipe table back, with its MultiMarkdown spans, header rows and caption
+ */
+function serializePipeTable(
+    data: string[][],
+    table: TableInfo,
+    style: TableOutputStyle,
+    options: { alignments: ColumnAlignment[]; eol: LineEnding; merges?: CellMerge[]; caption?: string }
+): string {
+    const merges = table.multiMarkdown ? options.merges ?? [] : [];
+    const captionChanged = options.caption !== undefined && options.caption.trim() !== (table.caption?.text ?? '');
+    if (style === 'preserve' && !captionChanged && isTableUnchanged(data, options.alignments, merges, table)) {
+        return splitLines(table.rawText).join(options.eol);
+    }
+
+    // The caption line is handled apart from the table lines
+    const originalLines = splitLines(table.rawText);
+    const originalCaptionLine = table.caption?.position === 'above' ? originalLines.shift()
+        : table.caption?.position === 'below' ? originalLines.pop() : undefined;
+    const originalText = removeLinePrefixes(originalLines.join(table.eol));
+
+    const headerRowCount = table.multiMarkdown ? Math.min(table.headerRowCount, data.length) : 1;
+    const markdownOptions: MarkdownTableOptions = { alignments: options.alignments, eol: options.eol, merges, headerRowCount };
+    const hasSpans = [...merges, ...table.merges ?? []].some(merge => merge.colSpan > 1);
+    const markdown = style === 'preserve' && (hasSpans || headerRowCount > 1 || table.headerRowCount > 1)
+        ? multiMarkdownPreserveFormat(data, removeTablePrefix(originalLines.join(table.eol), table.prefix), table, markdownOptions)
+        : tableToMarkdownWithStyle(data, originalText, table.data, style, markdownOptions);
+    const lines = splitLines(addLinePrefix(markdown, table.prefix));
+
+    const caption = (table.multiMarkdown ? options.caption ?? table.caption?.text : undefined)?.trim();
+    if (caption) {
+        const captionLine = caption === table.caption?.text && originalCaptionLine !== undefined
+            ? originalCaptionLine
+            : table.prefix + `[${caption}]` + (table.caption?.label ? `[${table.caption.label}]` : '');
+        if (table.caption?.position === 'below') {
+            lines.push(captionLine);
+        } else {
+            lines.unshift(captionLine);
+        }
+    }
+    return lines.join(options.eol);
+}
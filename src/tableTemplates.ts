@@ -0,0 +1,84 @@
+import type { ColumnAlignment } from './tableParser';
+
+/**
+ * Largest number of rows or columns accepted for a new table
+ */
+export const MAX_NEW_TABLE_SIZE = 100;
+
+/**
+ * Ready-made table offered by the Insert Table command
+ */
+export interface TableTemplate {
+    label: string;
+    description: string;
+    /** Header row followed by the body rows */
+    data: string[][];
+    alignments?: ColumnAlignment[];
+}
+
+/**
+ * Templates offered by the Insert Table command, in the order they are listed
+ */
+export const TABLE_TEMPLATES: readonly TableTemplate[] = [
+    {
+        label: 'Decision Table',
+        description: 'Conditions and actions per rule',
+        data: [
+            ['', 'Rule 1', 'Rule 2', 'Rule 3'],
+            ['Condition 1', 'Y', 'Y', 'N'],
+            ['Condition 2', 'Y', 'N', '-'],
+            ['Action 1', 'X', '', 'X'],
+            ['Action 2', '', 'X', '']
+        ],
+        alignments: ['left', 'center', 'center', 'center']
+    },
+    {
+        label: 'RACI Matrix',
+        description: 'Responsible, Accountable, Consulted and Informed roles per task',
+        data: [
+            ['Task', 'Role 1', 'Role 2', 'Role 3', 'Role 4'],
+            ['Task 1', 'R', 'A', 'C', 'I'],
+            ['Task 2', 'A', 'R', 'I', 'C'],
+            ['Task 3', 'C', 'I', 'R', 'A']
+        ],
+        alignments: ['left', 'center', 'center', 'center', 'center']
+    },
+    {
+        label: 'Changelog',
+        description: 'Changes per version and date',
+        data: [
+            ['Version', 'Date', 'Type', 'Description'],
+            ['1.0.0', 'YYYY-MM-DD', 'Added', ''],
+            ['', '', 'Changed', ''],
+            ['', '', 'Fixed', '']
+        ]
+    }
+];
+
+/**
+ * Creates a table with numbered column headers and empty body cells
+ * @param rows Number of body rows (below the header)
+ * @param columns Number of columns
+ */
+export function createEmptyTable(rows: number, columns: number): string[][] {
+    const header = Array.from({ length: columns }, (_, col) => `Column ${col + 1}`);
+    const body = Array.from({ length: rows }, () => Array<string>(columns).fill(''));
+    return [header, ...body];
+}
+
+/**
+ * Reads a table size such as `3x4`, `3 × 4` or `3*4` (rows × columns).
+ * Returns undefined unless both numbers are between 1 and {@link MAX_NEW_TABLE_SIZE}.
+ */
+export function parseTableSize(text: string): { rows: number; columns: number } | undefined {
+    const match = /^\s*(\d+)\s*[x×*,]\s*(\d+)\s*$/i.exec(text);
+    if (!match) {
+        return undefined;
+    }
+    const rows = parseInt(match[1], 10);
+    const columns = parseInt(match[2], 10);
+    if (rows < 1 || columns < 1 || rows > MAX_NEW_TABLE_SIZE || columns > MAX_NEW_TABLE_SIZE) {
+        return undefined;
+    }
+    return { rows, columns };
+}
@@ -0,0 +1,89 @@
+import * as assert from 'assert';
+import { decodeText, detectDelimiter, detectEncoding, parseDelimitedText, splitDelimitedText } from '../delimitedText';
+
+describe('Delimited Text', () => {
+    describe('parseDelimitedText', () => {
+        it('should split CSV rows and keep fields as written', () => {
+            assert.deepStrictEqual(parseDelimitedText('name, age\nAlice, 30\r\nBob, 25\n', ','), [
+                ['name', ' age'],
+                ['Alice', ' 30'],
+                ['Bob', ' 25']
+            ]);
+        });
+
+        it('should read quoted fields with delimiters, escaped quotes and line breaks', () => {
+            const csv = 'id,comment\n1,"Hello, ""world"""\n2,"line 1\nline 2"';
+            assert.deepStrictEqual(parseDelimitedText(csv, ','), [
+                ['id', 'comment'],
+                ['1', 'Hello, "world"'],
+                ['2', 'line 1<br>line 2']
+            ]);
+        });
+
+        it('should only treat a quote at the start of a field as an opening quote', () => {
+            assert.deepStrictEqual(parseDelimitedText('"a"b\tc "d"', '\t'), [['ab', 'c "d"']]);
+        });
+
+        it('should pad short rows and read blank lines as empty rows, except at the end', () => {
+            assert.deepStrictEqual(parseDelimitedText('a\tb\tc\n\n1\t2\n\n', '\t'), [
+                ['a', 'b', 'c'],
+                ['', '', ''],
+                ['1', '2', '']
+            ]);
+        });
+
+        it('should ignore outer pipes', () => {
+            assert.deepStrictEqual(parseDelimitedText('| a | b |\n| 1 | 2 |', '|'), [
+                [' a ', ' b '],
+                [' 1 ', ' 2 ']
+            ]);
+        });
+    });
+
+    describe('splitDelimitedText', () => {
+        it('should not pad short rows, so pasted cells leave the cells next to them alone', () => {
+            assert.deepStrictEqual(splitDelimitedText('a\tb\n"x\ny"\r\n', '\t'), [['a', 'b'], ['x<br>y']]);
+        });
+
+        it('should keep the empty last cell of a pasted column', () => {
+            assert.deepStrictEqual(splitDelimitedText('a\nb\n\n', '\t'), [['a'], ['b'], ['']]);
+        });
+    });
+
+    describe('detectDelimiter', () => {
+        it('should detect tabs, commas, semicolons and pipes', () => {
+            assert.strictEqual(detectDelimiter('a\tb, c\n1\t2'), '\t');
+            assert.strictEqual(detectDelimiter('a,b\n1,2'), ',');
+            assert.strictEqual(detectDelimiter('price;amount\n1,5;2\n3,25;4'), ';');
+            assert.strictEqual(detectDelimiter('a | b, c\n1 | 2'), '|');
+        });
+
+        it('should not count delimiters inside quoted fields', () => {
+            assert.strictEqual(detectDelimiter('"a;b",c\n"1;2",3'), ',');
+        });
+
+        it('should not count blank lines', () => {
+            assert.strictEqual(detectDelimiter('a,b\n\n1,2\n\n3,4'), ',');
+        });
+
+        it('should return undefined for text without columns', () => {
+            assert.strictEqual(detectDelimiter('just some text\nand more'), undefined);
+        });
+    });
+
+    describe('encodings', () => {
+        // "名前,数量" in Shift_JIS
+        const shiftJis = new Uint8Array([0x96, 0xbc, 0x91, 0x4f, 0x2c, 0x90, 0x94, 0x97, 0xca]);
+
+        it('should detect UTF-8, byte order marks and Shift_JIS', () => {
+            assert.strictEqual(detectEncoding(new TextEncoder().encode('名前,数量')), 'utf-8');
+            assert.strictEqual(detectEncoding(new Uint8Array([0xff, 0xfe, 0x41, 0x00])), 'utf-16le');
+            assert.strictEqual(detectEncoding(shiftJis), 'shift_jis');
+        });
+
+        it('should decode Shift_JIS and drop a UTF-8 byte order mark', () => {
+            assert.strictEqual(decodeText(shiftJis, 'shift_jis'), '名前,数量');
+            assert.strictEqual(decodeText(new Uint8Array([0xef, 0xbb, 0xbf, 0x61, 0x2c, 0x62]), 'utf-8'), 'a,b');
+        });
+    });
+});
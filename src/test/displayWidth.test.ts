@@ -0,0 +1,68 @@
+import * as assert from 'assert';
+import { getDisplayWidth, padEndToWidth, padStartToWidth, padCenterToWidth, splitAtDisplayColumns } from '../displayWidth';
+
+describe('Display Width', () => {
+    describe('getDisplayWidth', () => {
+        it('should count ASCII characters as one column', () => {
+            assert.strictEqual(getDisplayWidth('Hello'), 5);
+            assert.strictEqual(getDisplayWidth(''), 0);
+        });
+
+        it('should count East Asian wide and fullwidth characters as two columns', () => {
+            assert.strictEqual(getDisplayWidth('日本語'), 6);
+            assert.strictEqual(getDisplayWidth('ひらがなカタカナ'), 16);
+            assert.strictEqual(getDisplayWidth('한국어'), 6);
+            assert.strictEqual(getDisplayWidth('ＡＢＣ'), 6);
+            assert.strictEqual(getDisplayWidth('テスト1'), 7);
+        });
+
+        it('should count halfwidth katakana as one column', () => {
+            assert.strictEqual(getDisplayWidth('ｶﾀｶﾅ'), 4);
+        });
+
+        it('should count emoji as two columns', () => {
+            assert.strictEqual(getDisplayWidth('😀'), 2);
+            assert.strictEqual(getDisplayWidth('✅ done'), 7);
+        });
+
+        it('should treat emoji sequences as a single emoji', () => {
+            assert.strictEqual(getDisplayWidth('👍🏽'), 2);
+            assert.strictEqual(getDisplayWidth('👨‍👩‍👧'), 2);
+            assert.strictEqual(getDisplayWidth('🇯🇵'), 2);
+            assert.strictEqual(getDisplayWidth('❤️'), 2);
+        });
+
+        it('should count combining marks and zero-width characters as zero columns', () => {
+            assert.strictEqual(getDisplayWidth('e\u0301'), 1);
+            assert.strictEqual(getDisplayWidth('\u304B\u3099'), 2);
+            assert.strictEqual(getDisplayWidth('a\u200Bb'), 2);
+        });
+    });
+
+    describe('padding', () => {
+        it('should pad to a display width', () => {
+            assert.strictEqual(padEndToWidth('日本', 6), '日本  ');
+            assert.strictEqual(padStartToWidth('日本', 6), '  日本');
+            assert.strictEqual(padCenterToWidth('日本', 7), ' 日本  ');
+        });
+
+        it('should not truncate text wider than the width', () => {
+            assert.strictEqual(padEndToWidth('日本語', 4), '日本語');
+        });
+    });
+
+    describe('splitAtDisplayColumns', () => {
+        it('should split at display columns', () => {
+            assert.deepStrictEqual(splitAtDisplayColumns('ab|日本|c', [2, 3, 7, 8]), ['ab', '|', '日本', '|', 'c']);
+        });
+
+        it('should keep wide characters and combining marks whole', () => {
+            assert.deepStrictEqual(splitAtDisplayColumns('日本', [1]), ['日', '本']);
+            assert.deepStrictEqual(splitAtDisplayColumns('e\u0301x', [1]), ['e\u0301', 'x']);
+        });
+
+        it('should return empty pieces past the end of the text', () => {
+            assert.deepStrictEqual(splitAtDisplayColumns('ab', [1, 5]), ['a', 'b', '']);
+        });
+    });
+});
@@ -0,0 +1,94 @@
+import * as assert from 'assert';
+import { gridTableDialect } from '../gridTable';
+import { parseMarkdownTables, serializeTable } from '../tableParser';
+
+describe('Grid Tables', () => {
+    const gridTable = [
+        '+-------+----------+',
+        '| Name  | Notes    |',
+        '+:======+=========:+',
+        '| Alice | line one |',
+        '|       | line two |',
+        '+-------+----------+',
+        '| Bob   | 日本語   |',
+        '+-------+----------+'
+    ].join('\n');
+
+    describe('parsing', () => {
+        it('should parse a grid table with a header and multi-line cells', () => {
+            const tables = parseMarkdownTables(`Intro\n\n${gridTable}\n\nOutro`);
+            assert.strictEqual(tables.length, 1);
+            assert.strictEqual(tables[0].dialect, 'grid');
+            assert.strictEqual(tables[0].startLine, 2);
+            assert.strictEqual(tables[0].endLine, 9);
+            assert.strictEqual(tables[0].headerRowCount, 1);
+            assert.deepStrictEqual(tables[0].data, [
+                ['Name', 'Notes'],
+                ['Alice', 'line one<br>line two'],
+                ['Bob', '日本語']
+            ]);
+            assert.deepStrictEqual(tables[0].alignments, ['left', 'right']);
+        });
+
+        it('should parse a headerless grid table with alignments on the top border', () => {
+            const table = gridTableDialect.parse(['+:--+---+', '| a | b |', '+---+---+'], 0, 3);
+            assert.ok(table);
+            assert.strictEqual(table.headerRowCount, 0);
+            assert.strictEqual(table.lineCount, 3);
+            assert.deepStrictEqual(table.alignments, ['left', 'none']);
+        });
+
+        it('should keep the relative indentation of cell lines', () => {
+            const table = gridTableDialect.parse(['+----------+', '| - item   |', '|   nested |', '+----------+'], 0, 4);
+            assert.deepStrictEqual(table?.data, [['- item<br>  nested']]);
+        });
+
+        it('should not detect tables with spanning cells or without a closing border', () => {
+            assert.strictEqual(gridTableDialect.parse(['+---+---+', '| a     |', '+---+---+'], 0, 3), null);
+            assert.strictEqual(gridTableDialect.parse(['+---+---+', '| a | b |'], 0, 2), null);
+        });
+
+        it('should find grid tables in blockquotes', () => {
+            const tables = parseMarkdownTables('> +---+---+\n> | a | b |\n> +---+---+');
+            assert.strictEqual(tables[0].dialect, 'grid');
+            assert.strictEqual(tables[0].prefix, '> ');
+            assert.deepStrictEqual(tables[0].data, [['a', 'b']]);
+        });
+
+        it('should skip disabled dialects', () => {
+            assert.strictEqual(parseMarkdownTables(gridTable, { dialects: ['pipe'] }).length, 0);
+        });
+    });
+
+    describe('saving', () => {
+        it('should keep an unchanged table as written', () => {
+            const table = parseMarkdownTables(gridTable)[0];
+            assert.strictEqual(serializeTable(table.data, table, 'preserve', { alignments: table.alignments, eol: '\n' }), gridTable);
+        });
+
+        it('should write edited cells back as a grid table', () => {
+            const table = parseMarkdownTables(gridTable)[0];
+            const data = table.data.map(row => [...row]);
+            data[2][0] = 'Robert<br>Jr.';
+            const result = serializeTable(data, table, 'preserve', { alignments: table.alignments, eol: '\n' });
+            assert.strictEqual(result, [
+                '+--------+----------+',
+                '| Name   | Notes    |',
+                '+:=======+=========:+',
+                '| Alice  | line one |',
+                '|        | line two |',
+                '+--------+----------+',
+                '| Robert | 日本語   |',
+                '| Jr.    |          |',
+                '+--------+----------+'
+            ].join('\n'));
+            assert.deepStrictEqual(parseMarkdownTables(result)[0].data, data);
+        });
+
+        it('should keep wider original columns', () => {
+            const table = parseMarkdownTables('+----------+---+\n| a        | b |\n+----------+---+')[0];
+            const result = serializeTable([['c', 'b']], table, 'aligned', { alignments: table.alignments, eol: '\r\n' });
+            assert.strictEqual(result, '+----------+-----+\r\n| c        | b   |\r\n+----------+-----+');
+        });
+    });
+});
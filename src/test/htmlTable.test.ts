@@ -0,0 +1,264 @@
+import * as assert from 'assert';
+import { htmlTableDialect } from '../htmlTable';
+import { parseMarkdownTables, serializeTable } from '../tableParser';
+
+describe('HTML Tables', () => {
+    const htmlTable = [
+        '<table class="data">',
+        '    <thead>',
+        '        <tr><th align="left">Name</th><th colspan="2">Score</th></tr>',
+        '    </thead>',
+        '    <tbody>',
+        '        <tr><td rowspan="2">Alice</td><td>1</td><td style="text-align: right">2</td></tr>',
+        '        <tr><td>3',
+        '            more</td><td>4</td></tr>',
+        '    </tbody>',
+        '</table>'
+    ].join('\n');
+
+    describe('parsing', () => {
+        it('should parse an HTML table with spans as merged cells', () => {
+            const tables = parseMarkdownTables(`# Title\n\n${htmlTable}\n\nText`);
+            assert.strictEqual(tables.length, 1);
+            assert.strictEqual(tables[0].dialect, 'html');
+            assert.strictEqual(tables[0].startLine, 2);
+            assert.strictEqual(tables[0].endLine, 11);
+            assert.strictEqual(tables[0].headerRowCount, 1);
+            assert.deepStrictEqual(tables[0].data, [
+                ['Name', 'Score', ''],
+                ['Alice', '1', '2'],
+                ['', '3 more', '4']
+            ]);
+            assert.deepStrictEqual(tables[0].merges, [
+                { row: 0, col: 1, rowSpan: 1, colSpan: 2 },
+                { row: 1, col: 0, rowSpan: 2, colSpan: 1 }
+            ]);
+            assert.deepStrictEqual(tables[0].alignments, ['left', 'none', 'right']);
+        });
+
+        it('should treat leading rows of th cells as the header', () => {
+            const table = htmlTableDialect.parse(['<table>', '<tr><th>a</th></tr>', '<tr><td>1</td></tr>', '</table>'], 0, 4);
+            assert.strictEqual(table?.headerRowCount, 1);
+            assert.strictEqual(table?.lineCount, 4);
+        });
+
+        it('should accept omitted end tags and keep nested tables in their cell', () => {
+            const table = htmlTableDialect.parse(['<table><tr><td>a<td><table><tr><td>x</td></tr></table><tr><td>b</table>'], 0, 1);
+            assert.deepStrictEqual(table?.data, [['a', '<table><tr><td>x</td></tr></table>'], ['b', '']]);
+        });
+
+        it('should not detect unterminated tables or tables followed by other markup', () => {
+            assert.strictEqual(htmlTableDialect.parse(['<table>', '<tr><td>a</td></tr>'], 0, 2), null);
+            assert.strictEqual(htmlTableDialect.parse(['<table><tr><td>a</td></tr></table></div>'], 0, 1), null);
+        });
+
+        it('should ignore HTML tables in code blocks', () => {
+            assert.strictEqual(parseMarkdownTables('```\n<table><tr><td>a</td></tr></table>\n```').length, 0);
+        });
+    });
+
+    describe('saving', () => {
+        it('should keep an unchanged table as written', () => {
+            const table = parseMarkdownTables(htmlTable)[0];
+            const result = serializeTable(table.data, table, 'preserve', { alignments: table.alignments, eol: '\n', merges: table.merges });
+            assert.strictEqual(result, htmlTable);
+        });
+
+        it('should write well-formed, indented HTML with spans', () => {
+            const table = parseMarkdownTables(htmlTable)[0];
+            const data = table.data.map(row => [...row]);
+            data[2][2] = 'four';
+            const result = serializeTable(data, table, 'preserve', { alignments: table.alignments, eol: '\n', merges: table.merges });
+            assert.strictEqual(result, [
+                '<table class="data">',
+                '    <thead>',
+                '        <tr>',
+                '            <th align="left">Name</th>',
+                '            <th colspan="2">Score</th>',
+                '        </tr>',
+                '    </thead>',
+                '    <tbody>',
+                '        <tr>',
+                '            <td rowspan="2">Alice</td>',
+                '            <td>1</td>',
+                '            <td style="text-align: right">2</td>',
+                '        </tr>',
+                '        <tr>',
+                '            <td>3',
+                '            more</td>',
+                '            <td>four</td>',
+                '        </tr>',
+                '    </tbody>',
+                '</table>'
+            ].join('\n'));
+            const reparsed = parseMarkdownTables(result)[0];
+            assert.deepStrictEqual(reparsed.data, data);
+            assert.deepStrictEqual(reparsed.merges, table.merges);
+        });
+
+        it('should keep the attributes, sections and footer of rows and cells', () => {
+            const original = [
+                '<table id="t">',
+                '<thead>',
+                '<tr class="head"><th id="n" width="40%">Name</th><th>Total</th></tr>',
+                '</thead>',
+                '<tbody class="rows">',
+                '<tr class="odd"><td class="name" style="color: red">Alice</td><td align="right">1</td></tr>',
+                '</tbody>',
+                '<tfoot>',
+                '<tr class="sum"><td>Sum</td><td align="right">1</td></tr>',
+                '</tfoot>',
+                '</table>'
+            ].join('\n');
+            const table = parseMarkdownTables(original)[0];
+            const data = [['Name', 'Total'], ['Bob', '1'], ['Carol', '2'], ['Sum', '3']];
+            const result = serializeTable(data, table, 'preserve', { alignments: table.alignments, eol: '\n', merges: [] });
+            assert.strictEqual(result, [
+                '<table id="t">',
+                '  <thead>',
+                '    <tr class="head">',
+                '      <th id="n" width="40%">Name</th>',
+                '      <th>Total</th>',
+                '    </tr>',
+                '  </thead>',
+                '  <tbody class="rows">',
+                '    <tr class="odd">',
+                '      <td class="name" style="color: red">Bob</td>',
+                '      <td align="right">1</td>',
+                '    </tr>',
+                '    <tr>',
+                '      <td>Carol</td>',
+                '      <td>2</td>',
+                '    </tr>',
+                '  </tbody>',
+                '  <tfoot>',
+                '    <tr class="sum">',
+                '      <td>Sum</td>',
+                '      <td align="right">3</td>',
+                '    </tr>',
+                '  </tfoot>',
+                '</table>'
+            ].join('\n'));
+            const reparsed = parseMarkdownTables(result)[0];
+            assert.deepStrictEqual(reparsed.data, data);
+            assert.strictEqual(reparsed.headerRowCount, 1);
+        });
+
+        describe('attributes of rows and cells around inserted and deleted ones', () => {
+            const original = [
+                '<table>',
+                '<tr><th>Item</th><th>Cost</th></tr>',
+                '<tr><td>Tea</td><td>4</td></tr>',
+                '<tr class="total"><td>Sum</td><td align="right" class="money">10</td></tr>',
+                '</table>'
+            ].join('\n');
+            const save = (data: string[][]) => {
+                const table = parseMarkdownTables(original)[0];
+                const alignments = data[0].map(() => 'none' as const);
+                return serializeTable(data, table, 'preserve', { alignments, eol: '\n', merges: [] });
+            };
+            // The lines from the `total` row to the end of the table
+            const totalRow = (result: string) => {
+                const lines = result.split('\n');
+                return lines.slice(lines.indexOf('  <tr class="total">')).join('\n');
+            };
+
+            it('should keep them on their cells when a column is inserted before them', () => {
+                assert.strictEqual(totalRow(save([['', 'Item', 'Cost'], ['', 'Tea', '4'], ['', 'Sum', '10']])), [
+                    '  <tr class="total">',
+                    '    <td></td>',
+                    '    <td>Sum</td>',
+                    '    <td align="right" class="money">10</td>',
+                    '  </tr>',
+                    '</table>'
+                ].join('\n'));
+            });
+
+            it('should keep them on their cells when a column before them is deleted', () => {
+                assert.strictEqual(totalRow(save([['Cost'], ['4'], ['10']])), [
+                    '  <tr class="total">',
+                    '    <td align="right" class="money">10</td>',
+                    '  </tr>',
+                    '</table>'
+                ].join('\n'));
+            });
+
+            it('should give a row inserted before them bare tags', () => {
+                assert.strictEqual(save([['Item', 'Cost'], ['', ''], ['Tea', '4'], ['Sum', '10']]), [
+                    '<table>',
+                    '  <tr>',
+                    '    <th>Item</th>',
+                    '    <th>Cost</th>',
+                    '  </tr>',
+                    '  <tr>',
+                    '    <td></td>',
+                    '    <td></td>',
+                    '  </tr>',
+                    '  <tr>',
+                    '    <td>Tea</td>',
+                    '    <td>4</td>',
+                    '  </tr>',
+                    '  <tr class="total">',
+                    '    <td>Sum</td>',
+                    '    <td align="right" class="money">10</td>',
+                    '  </tr>',
+                    '</table>'
+                ].join('\n'));
+            });
+
+            it('should keep them on their row when a row before it is deleted', () => {
+                assert.strictEqual(totalRow(save([['Item', 'Cost'], ['Sum', '10']])), [
+                    '  <tr class="total">',
+                    '    <td>Sum</td>',
+                    '    <td align="right" class="money">10</td>',
+                    '  </tr>',
+                    '</table>'
+                ].join('\n'));
+            });
+        });
+
+        it('should keep the line breaks of cells that were not edited', () => {
+            const original = [
+                '<table>',
+                '<tr><td><pre>a',
+                '  b</pre></td><td><ul>',
+                '<li>x</li>',
+                '</ul></td><td>old</td></tr>',
+                '</table>'
+            ].join('\n');
+            const table = parseMarkdownTables(original)[0];
+            assert.deepStrictEqual(table.data, [['<pre>a b</pre>', '<ul> <li>x</li> </ul>', 'old']]);
+            const result = serializeTable([['<pre>a b</pre>', '<ul> <li>x</li> </ul>', 'new']], table, 'preserve', { alignments: table.alignments, eol: '\n' });
+            assert.strictEqual(result, [
+                '<table>',
+                '  <tr>',
+                '    <td><pre>a',
+                '  b</pre></td>',
+                '    <td><ul>',
+                '<li>x</li>',
+                '</ul></td>',
+                '    <td>new</td>',
+                '  </tr>',
+                '</table>'
+            ].join('\n'));
+        });
+
+        it('should rewrite only the spans and alignments of existing cells', () => {
+            const table = parseMarkdownTables(htmlTable)[0];
+            const result = serializeTable(table.data, table, 'preserve', { alignments: ['left', 'none', 'center'], eol: '\n', merges: [] });
+            const lines = result.split('\n');
+            assert.ok(lines.includes('            <th align="left">Name</th>'));
+            assert.ok(lines.includes('            <th>Score</th>'));
+            assert.ok(lines.includes('            <td>Alice</td>'));
+            assert.ok(lines.includes('            <td style="text-align: center">2</td>'));
+            assert.ok(lines.includes('            <td align="center">4</td>'));
+        });
+
+        it('should keep the blockquote prefix', () => {
+            const table = parseMarkdownTables('> <table>\n> <tr><td>q</td></tr>\n> </table>')[0];
+            assert.strictEqual(table.prefix, '> ');
+            const result = serializeTable([['x']], table, 'preserve', { alignments: [], eol: '\n' });
+            assert.strictEqual(result, '> <table>\n>   <tr>\n>     <td>x</td>\n>   </tr>\n> </table>');
+        });
+    });
+});
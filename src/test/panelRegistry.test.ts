@@ -0,0 +1,60 @@
+import * as assert from 'assert';
+import { PanelRegistry } from '../panelRegistry';
+
+/**
+ * Stand-in for a Table Editor panel
+ */
+class FakePanel {
+    public isDisposed = false;
+}
+
+describe('Panel Registry', () => {
+    const key = 'file:///notes.md#L3';
+    const movedKey = 'file:///notes.md#L5';
+
+    it('should move a panel along with its table', () => {
+        const registry = new PanelRegistry<FakePanel>();
+        const panel = new FakePanel();
+        registry.add(key, panel);
+        assert.strictEqual(registry.move(panel, key, movedKey), true);
+        assert.strictEqual(registry.get(key), undefined);
+        assert.strictEqual(registry.get(movedKey), panel);
+    });
+
+    it('should not move a panel onto the key of another panel', () => {
+        const registry = new PanelRegistry<FakePanel>();
+        const panel = new FakePanel();
+        const other = new FakePanel();
+        registry.add(key, panel);
+        registry.add(movedKey, other);
+        assert.strictEqual(registry.move(panel, key, movedKey), false);
+        assert.strictEqual(registry.get(key), panel);
+        assert.strictEqual(registry.get(movedKey), other);
+    });
+
+    it('should open a new panel for a table whose panel was closed with unsaved changes', () => {
+        const registry = new PanelRegistry<FakePanel>();
+        const closed = new FakePanel();
+        registry.add(key, closed);
+
+        // Closing the panel removes it; the save on close then writes the table, which moves it
+        closed.isDisposed = true;
+        registry.remove(key, closed);
+        assert.strictEqual(registry.move(closed, key, movedKey), false);
+        registry.add(movedKey, closed);
+
+        // Editing the same table again finds no panel, so a new one is opened
+        assert.strictEqual(registry.get(movedKey), undefined);
+        const reopened = new FakePanel();
+        registry.add(movedKey, reopened);
+        assert.strictEqual(registry.get(movedKey), reopened);
+    });
+
+    it('should only remove the panel registered under a key', () => {
+        const registry = new PanelRegistry<FakePanel>();
+        const panel = new FakePanel();
+        registry.add(key, panel);
+        registry.remove(key, new FakePanel());
+        assert.strictEqual(registry.get(key), panel);
+    });
+});
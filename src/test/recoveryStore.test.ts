@@ -0,0 +1,76 @@
+import * as assert from 'assert';
+import { RecoveryEntry, RecoveryStorage, RecoveryStore } from '../recoveryStore';
+import { getTableIdentity } from '../tableIdentity';
+import { parseMarkdownTables, TableInfo } from '../tableParser';
+
+/**
+ * In-memory stand-in for a VS Code Memento
+ */
+class MemoryStorage implements RecoveryStorage {
+    private readonly _values = new Map<string, unknown>();
+
+    public get<T>(key: string): T | undefined {
+        return this._values.get(key) as T | undefined;
+    }
+
+    public async update(key: string, value: unknown): Promise<void> {
+        this._values.set(key, JSON.parse(JSON.stringify(value)));
+    }
+}
+
+describe('Recovery Store', () => {
+    const documentUri = 'file:///notes.md';
+    const document = `| a | b |
+|---|---|
+| 1 | 2 |
+`;
+
+    function createEntry(table: TableInfo, savedAt: number): RecoveryEntry {
+        return {
+            documentUri,
+            identity: getTableIdentity(table),
+            data: [['a', 'b'], ['1', 'edited']],
+            alignments: table.alignments,
+            merges: [],
+            outputStyle: 'preserve',
+            savedAt
+        };
+    }
+
+    it('should find the checkpoint of a table after lines were inserted above it', async () => {
+        const store = new RecoveryStore(new MemoryStorage());
+        const [table] = parseMarkdownTables(document);
+        const key = RecoveryStore.getKey(documentUri, table);
+        await store.save(key, createEntry(table, 1000));
+
+        const [moved] = parseMarkdownTables(`# Title\n\n${document}`);
+        const found = store.find(documentUri, moved);
+        assert.strictEqual(found?.key, key);
+        assert.deepStrictEqual(found?.entry.data, [['a', 'b'], ['1', 'edited']]);
+    });
+
+    it('should not find checkpoints of other documents', async () => {
+        const store = new RecoveryStore(new MemoryStorage());
+        const [table] = parseMarkdownTables(document);
+        await store.save(RecoveryStore.getKey(documentUri, table), createEntry(table, 1000));
+        assert.strictEqual(store.find('file:///other.md', table), undefined);
+    });
+
+    it('should remove a checkpoint', async () => {
+        const store = new RecoveryStore(new MemoryStorage());
+        const [table] = parseMarkdownTables(document);
+        const key = RecoveryStore.getKey(documentUri, table);
+        await store.save(key, createEntry(table, 1000));
+        await store.remove(key);
+        assert.strictEqual(store.find(documentUri, table), undefined);
+    });
+
+    it('should prune old checkpoints', async () => {
+        const store = new RecoveryStore(new MemoryStorage());
+        const tables = parseMarkdownTables(`${document}\n${document.replace('2', '3')}`);
+        await store.save(RecoveryStore.getKey(documentUri, tables[0]), createEntry(tables[0], 1000));
+        await store.save(RecoveryStore.getKey(documentUri, tables[1]), createEntry(tables[1], 5000));
+        await store.prune(2000, 6000);
+        assert.deepStrictEqual(Object.keys(store.entries), [RecoveryStore.getKey(documentUri, tables[1])]);
+    });
+});
@@ -0,0 +1,87 @@
+import * as assert from 'assert';
+import { simpleTableDialect } from '../simpleTable';
+import { parseMarkdownTables, serializeTable } from '../tableParser';
+
+describe('Simple Tables', () => {
+    const simpleTable = [
+        '  Right     Left     Center     Default',
+        '-------     ------ ----------   -------',
+        '     12     12        12            12',
+        '    123     123       123          123'
+    ].join('\n');
+
+    describe('parsing', () => {
+        it('should parse a simple table with alignments from the header', () => {
+            const tables = parseMarkdownTables(`Intro\n\n${simpleTable}\n\nOutro`);
+            assert.strictEqual(tables.length, 1);
+            assert.strictEqual(tables[0].dialect, 'simple');
+            assert.strictEqual(tables[0].startLine, 2);
+            assert.strictEqual(tables[0].endLine, 5);
+            assert.deepStrictEqual(tables[0].data, [
+                ['Right', 'Left', 'Center', 'Default'],
+                ['12', '12', '12', '12'],
+                ['123', '123', '123', '123']
+            ]);
+            assert.deepStrictEqual(tables[0].alignments, ['right', 'left', 'center', 'none']);
+        });
+
+        it('should parse a headerless table between dashed lines', () => {
+            const table = simpleTableDialect.parse(['-----  -----', '   12  12', '  123  123', '-----  -----'], 0, 4);
+            assert.ok(table);
+            assert.strictEqual(table.headerRowCount, 0);
+            assert.strictEqual(table.lineCount, 4);
+            assert.deepStrictEqual(table.data, [['12', '12'], ['123', '123']]);
+            assert.deepStrictEqual(table.alignments, ['right', 'left']);
+        });
+
+        it('should include a closing dashed line', () => {
+            assert.strictEqual(simpleTableDialect.parse(['a    b', '---  ---', '1    2', '---  ---'], 0, 4)?.lineCount, 4);
+        });
+
+        it('should not start a table in the middle of a paragraph or without rows', () => {
+            assert.strictEqual(simpleTableDialect.parse(['text', 'a    b', '---  ---', '1    2'], 1, 4), null);
+            assert.strictEqual(simpleTableDialect.parse(['a    b', '---  ---'], 0, 2), null);
+            assert.strictEqual(simpleTableDialect.parse(['- - -', 'text'], 0, 2), null);
+        });
+
+        it('should not take pipe tables', () => {
+            assert.strictEqual(parseMarkdownTables('a | b\n--- | ---\n1 | 2')[0].dialect, 'pipe');
+        });
+    });
+
+    describe('saving', () => {
+        it('should keep an unchanged table as written', () => {
+            const table = parseMarkdownTables(simpleTable)[0];
+            assert.strictEqual(serializeTable(table.data, table, 'preserve', { alignments: table.alignments, eol: '\n' }), simpleTable);
+        });
+
+        it('should write alignments back through the header position', () => {
+            const table = parseMarkdownTables(simpleTable)[0];
+            const data = table.data.map(row => [...row]);
+            data[2][1] = 'longer';
+            const result = serializeTable(data, table, 'preserve', { alignments: table.alignments, eol: '\n' });
+            assert.strictEqual(result, [
+                '  Right  Left      Center    Default',
+                '-------  ------  ----------  -------',
+                '     12  12          12      12',
+                '    123  longer     123      123'
+            ].join('\n'));
+            const reparsed = parseMarkdownTables(result)[0];
+            assert.deepStrictEqual(reparsed.data, data);
+            assert.deepStrictEqual(reparsed.alignments, table.alignments);
+        });
+
+        it('should detect a table whose header is indented like code', () => {
+            const table = parseMarkdownTables(simpleTable)[0];
+            const data = table.data.map(row => [...row]);
+            data[1][0] = '1234567890';
+            const result = serializeTable(data, table, 'preserve', { alignments: table.alignments, eol: '\n' });
+            assert.deepStrictEqual(parseMarkdownTables(result)[0].data, data);
+        });
+
+        it('should write a headerless table between dashed lines', () => {
+            const result = simpleTableDialect.serialize([['12', 'a'], ['3', 'b']], { alignments: ['right', 'left'], headerRowCount: 0, eol: '\n' });
+            assert.strictEqual(result, '---  ---\n 12  a\n  3  b\n---  ---');
+        });
+    });
+});
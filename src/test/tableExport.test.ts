@@ -0,0 +1,85 @@
+import * as assert from 'assert';
+import { markdownToHtml, markdownToPlainText } from '../inlineMarkdown';
+import { exportTable } from '../tableExport';
+
+describe('Table Export', () => {
+    const data = [
+        ['name', 'note'],
+        ['**Tea**', 'green, "sencha"'],
+        ['Coffee', 'line 1<br>line 2']
+    ];
+
+    describe('inline Markdown', () => {
+        it('should strip inline Markdown to plain text', () => {
+            assert.strictEqual(markdownToPlainText('**bold** *it* `code` ~~del~~ [link](https://x.test)'), 'bold it code del link');
+            assert.strictEqual(markdownToPlainText('a<br>b \\| c'), 'a\nb | c');
+        });
+
+        it('should convert inline Markdown to HTML', () => {
+            assert.strictEqual(
+                markdownToHtml('**bold** <x> [link](https://x.test)<br>'),
+                '<strong>bold</strong> &lt;x&gt; <a href="https://x.test">link</a><br>'
+            );
+        });
+
+        it('should keep raw inline HTML tags that are already in cells', () => {
+            assert.strictEqual(
+                markdownToHtml('a<br/>b <kbd>Ctrl</kbd>+<KBD>C</KBD> <span onclick="x()">s</span> <script>'),
+                'a<br>b <kbd>Ctrl</kbd>+<kbd>C</kbd> <span>s</span> &lt;script&gt;'
+            );
+        });
+    });
+
+    describe('CSV and TSV', () => {
+        it('should write RFC 4180 CSV with CRLF records', () => {
+            assert.strictEqual(
+                exportTable(data, 'csv'),
+                'name,note\r\n**Tea**,"green, ""sencha"""\r\nCoffee,line 1<br>line 2\r\n'
+            );
+        });
+
+        it('should quote line breaks of plain text cells', () => {
+            assert.strictEqual(
+                exportTable(data, 'tsv', { inlineMarkdown: 'plain' }),
+                'name\tnote\nTea\t"green, ""sencha"""\nCoffee\t"line 1\nline 2"\n'
+            );
+        });
+    });
+
+    describe('JSON', () => {
+        it('should write an array of objects keyed by the header row', () => {
+            assert.deepStrictEqual(JSON.parse(exportTable(data, 'json', { inlineMarkdown: 'plain' })), [
+                { name: 'Tea', note: 'green, "sencha"' },
+                { name: 'Coffee', note: 'line 1\nline 2' }
+            ]);
+        });
+
+        it('should name empty and repeated header cells', () => {
+            const json = exportTable([['a', '', 'a'], ['1', '2', '3']], 'json');
+            const [object] = JSON.parse(json);
+            assert.deepStrictEqual(Object.keys(object), ['a', 'Column 2', 'a (2)']);
+            assert.deepStrictEqual(Object.values(object), ['1', '2', '3']);
+        });
+    });
+
+    describe('HTML', () => {
+        it('should write a standalone document with alignments and merged cells', () => {
+            const html = exportTable([['a', 'b'], ['1', '2'], ['^', '3']], 'html', {
+                alignments: ['none', 'right'],
+                caption: 'Numbers',
+                title: 'notes.md'
+            });
+            assert.ok(html.startsWith('<!DOCTYPE html>'));
+            assert.ok(html.includes('<title>notes.md</title>'));
+            assert.ok(html.includes('<caption>Numbers</caption>'));
+            assert.ok(html.includes('<th align="right">b</th>'));
+            assert.ok(html.includes('<td rowspan="2">1</td>'));
+            assert.ok(!html.includes('^'));
+        });
+
+        it('should escape kept Markdown but keep its line breaks', () => {
+            const html = exportTable([['a'], ['**x** & <y><br>z']], 'html');
+            assert.ok(html.includes('<td>**x** &amp; &lt;y&gt;<br>z</td>'));
+        });
+    });
+});
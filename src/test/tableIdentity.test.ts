@@ -0,0 +1,75 @@
+import * as assert from 'assert';
+import { getTableFingerprint, getTableIdentity, getTableKey, resolveTable } from '../tableIdentity';
+import { parseMarkdownTables } from '../tableParser';
+
+describe('Table Identity', () => {
+    const document = `| a | b |
+|---|---|
+| 1 | 2 |
+
+<!-- table-id: prices -->
+| item | price |
+|------|------:|
+| tea  |     3 |
+`;
+
+    describe('anchor comments', () => {
+        it('should read the table id from a comment above the table', () => {
+            const tables = parseMarkdownTables(document);
+            assert.strictEqual(tables[0].anchor, undefined);
+            assert.strictEqual(tables[1].anchor, 'prices');
+        });
+
+        it('should read the table id and output style comments in any order', () => {
+            const tables = parseMarkdownTables(`<!-- table-style: compact -->
+<!-- table-id: t1 -->
+| a |
+|---|`);
+            assert.strictEqual(tables[0].anchor, 't1');
+            assert.strictEqual(tables[0].outputStyle, 'compact');
+        });
+    });
+
+    describe('getTableFingerprint', () => {
+        it('should depend on the cell contents only', () => {
+            const [compact] = parseMarkdownTables('| a | b |\n|---|---|\n| 1 | 2 |');
+            const [aligned] = parseMarkdownTables('|  a  |  b  |\n| --- | --- |\n|  1  |  2  |');
+            const [changed] = parseMarkdownTables('| a | b |\n|---|---|\n| 1 | 3 |');
+            assert.strictEqual(getTableFingerprint(compact), getTableFingerprint(aligned));
+            assert.notStrictEqual(getTableFingerprint(compact), getTableFingerprint(changed));
+        });
+    });
+
+    describe('resolveTable', () => {
+        it('should find a table after a new table was inserted above it', () => {
+            const identity = getTableIdentity(parseMarkdownTables(document)[0]);
+            const tables = parseMarkdownTables(`| new |\n|-----|\n| x |\n\n${document}`);
+            assert.strictEqual(resolveTable(tables, identity), tables[1]);
+        });
+
+        it('should find a table by its anchor after its contents changed', () => {
+            const identity = getTableIdentity(parseMarkdownTables(document)[1]);
+            const tables = parseMarkdownTables(document.replace('| tea  |     3 |', '| tea  |     4 |'));
+            assert.strictEqual(resolveTable(tables, identity), tables[1]);
+        });
+
+        it('should pick the nearest of several identical tables', () => {
+            const table = '| a |\n|---|\n| 1 |\n';
+            const tables = parseMarkdownTables(`${table}\n${table}\n${table}`);
+            assert.strictEqual(resolveTable(tables, getTableIdentity(tables[1])), tables[1]);
+        });
+
+        it('should return undefined when no table matches', () => {
+            const identity = getTableIdentity(parseMarkdownTables(document)[0]);
+            assert.strictEqual(resolveTable(parseMarkdownTables('Text only'), identity), undefined);
+        });
+    });
+
+    describe('getTableKey', () => {
+        it('should use the anchor, or else the start line', () => {
+            const tables = parseMarkdownTables(document);
+            assert.strictEqual(getTableKey(tables[0]), '@0');
+            assert.strictEqual(getTableKey(tables[1]), '#prices');
+        });
+    });
+});
@@ -0,0 +1,97 @@
+import * as assert from 'assert';
+import { findMovedTable, findTableAtLine, mapLineRange } from '../tableLocation';
+import { parseMarkdownTables } from '../tableParser';
+
+describe('Table Location', () => {
+    describe('mapLineRange', () => {
+        const range = { startLine: 4, endLine: 6 };
+
+        it('should shift the range by lines inserted above it', () => {
+            assert.deepStrictEqual(
+                mapLineRange(range, [{ startLine: 1, endLine: 1, text: 'a\nb\n' }]),
+                { startLine: 6, endLine: 8, touched: false }
+            );
+        });
+
+        it('should shift the range by lines deleted above it', () => {
+            assert.deepStrictEqual(
+                mapLineRange(range, [{ startLine: 0, endLine: 2, text: '' }]),
+                { startLine: 2, endLine: 4, touched: false }
+            );
+        });
+
+        it('should leave the range alone for edits below it', () => {
+            assert.deepStrictEqual(
+                mapLineRange(range, [{ startLine: 7, endLine: 9, text: '' }]),
+                { startLine: 4, endLine: 6, touched: false }
+            );
+        });
+
+        it('should report edits inside the range', () => {
+            assert.deepStrictEqual(
+                mapLineRange(range, [{ startLine: 5, endLine: 5, text: 'x\ny' }]),
+                { startLine: 4, endLine: 7, touched: true }
+            );
+        });
+
+        it('should apply several changes of one edit', () => {
+            assert.deepStrictEqual(
+                mapLineRange(range, [
+                    { startLine: 0, endLine: 0, text: 'a\n' },
+                    { startLine: 8, endLine: 8, text: 'b\n' },
+                    { startLine: 2, endLine: 3, text: '' }
+                ]),
+                { startLine: 4, endLine: 6, touched: false }
+            );
+        });
+    });
+
+    describe('findMovedTable', () => {
+        const before = `# Title
+
+| a | b |
+|---|---|
+| 1 | 2 |
+`;
+
+        it('should find a table that moved down', () => {
+            const previous = parseMarkdownTables(before)[0];
+            const tables = parseMarkdownTables(`Intro\n\n${before}`);
+            const expected = mapLineRange(previous, [{ startLine: 0, endLine: 0, text: 'Intro\n\n' }]);
+            assert.strictEqual(findMovedTable(tables, previous, expected), tables[0]);
+            assert.strictEqual(tables[0].startLine, 4);
+        });
+
+        it('should find a table whose cells were edited', () => {
+            const previous = parseMarkdownTables(before)[0];
+            const tables = parseMarkdownTables(before.replace('| 1 |', '| 10 |'));
+            const expected = mapLineRange(previous, [{ startLine: 4, endLine: 4, text: '| 10' }]);
+            const table = findMovedTable(tables, previous, expected);
+            assert.deepStrictEqual(table?.data, [['a', 'b'], ['10', '2']]);
+        });
+
+        it('should not mistake a new table above for the tracked one', () => {
+            const previous = parseMarkdownTables(before)[0];
+            const inserted = '| x |\n|---|\n| y |\n\n';
+            const tables = parseMarkdownTables(inserted + before);
+            const expected = mapLineRange(previous, [{ startLine: 0, endLine: 0, text: inserted }]);
+            assert.strictEqual(findMovedTable(tables, previous, expected), tables[1]);
+        });
+
+        it('should return undefined when the table was deleted', () => {
+            const previous = parseMarkdownTables(before)[0];
+            const tables = parseMarkdownTables('# Title\n\n');
+            const expected = mapLineRange(previous, [{ startLine: 2, endLine: 5, text: '' }]);
+            assert.strictEqual(findMovedTable(tables, previous, expected), undefined);
+        });
+    });
+
+    describe('findTableAtLine', () => {
+        it('should find the table containing a line', () => {
+            const tables = parseMarkdownTables('| a |\n|---|\n| 1 |\n\nText\n\n| b |\n|---|\n| 2 |');
+            assert.strictEqual(findTableAtLine(tables, 2), tables[0]);
+            assert.strictEqual(findTableAtLine(tables, 6), tables[1]);
+            assert.strictEqual(findTableAtLine(tables, 4), undefined);
+        });
+    });
+});
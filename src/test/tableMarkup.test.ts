@@ -0,0 +1,125 @@
+import * as assert from 'assert';
+import { tableToAsciiDoc, tableToConfluence, tableToLatex, tableToRstGridTable, tableToRstListTable } from '../tableMarkup';
+
+describe('Table Markup', () => {
+    const data = [
+        ['Name', 'Qty'],
+        ['**Tea**', '3'],
+        ['^', '4']
+    ];
+    const options = { alignments: ['left' as const, 'right' as const] };
+
+    describe('tableToLatex', () => {
+        it('should write a tabular with alignments, rules and multirow cells', () => {
+            assert.strictEqual(tableToLatex(data, options), [
+                '% Requires \\usepackage{multirow}',
+                '\\begin{tabular}{|l|r|}',
+                '\\hline',
+                'Name & Qty \\\\',
+                '\\hline',
+                '\\multirow{2}{*}{**Tea**} & 3 \\\\',
+                '\\cline{2-2}',
+                ' & 4 \\\\',
+                '\\hline',
+                '\\end{tabular}'
+            ].join('\n'));
+        });
+
+        it('should write booktabs rules, multicolumn cells and a caption', () => {
+            const latex = tableToLatex([['a', 'b'], ['50% & more', '']], {
+                booktabs: true,
+                merges: [{ row: 1, col: 0, rowSpan: 1, colSpan: 2 }],
+                caption: 'Sales'
+            });
+            assert.strictEqual(latex, [
+                '% Requires \\usepackage{booktabs}',
+                '\\begin{table}[htbp]',
+                '\\centering',
+                '\\caption{Sales}',
+                '\\begin{tabular}{ll}',
+                '\\toprule',
+                'a & b \\\\',
+                '\\midrule',
+                '\\multicolumn{2}{l}{50\\% \\& more} \\\\',
+                '\\bottomrule',
+                '\\end{tabular}',
+                '\\end{table}'
+            ].join('\n'));
+        });
+
+        it('should convert inline Markdown to LaTeX', () => {
+            const latex = tableToLatex([['a'], ['**b** `c_d`']], { inlineMarkdown: 'html' });
+            assert.ok(latex.includes('\\textbf{b} \\texttt{c\\_d} \\\\'));
+        });
+    });
+
+    describe('tableToAsciiDoc', () => {
+        it('should write column alignments, a header row and row spans', () => {
+            assert.strictEqual(tableToAsciiDoc(data, { ...options, caption: 'Stock' }), [
+                '.Stock',
+                '[cols="<1,>1",options="header"]',
+                '|===',
+                '|Name |Qty',
+                '',
+                '.2+|**Tea** |3',
+                '|4',
+                '|==='
+            ].join('\n'));
+        });
+
+        it('should escape pipes and write column spans', () => {
+            const adoc = tableToAsciiDoc([['a', 'b'], ['x | y', '']], { merges: [{ row: 1, col: 0, rowSpan: 1, colSpan: 2 }] });
+            assert.ok(adoc.includes('2+|x \\| y'));
+        });
+    });
+
+    describe('reStructuredText', () => {
+        it('should write a list-table, with line blocks for line breaks', () => {
+            assert.strictEqual(tableToRstListTable([['a', 'b'], ['1<br>2', '']], { inlineMarkdown: 'plain' }), [
+                '.. list-table::',
+                '   :header-rows: 1',
+                '',
+                '   * - a',
+                '     - b',
+                '   * - | 1',
+                '       | 2',
+                '     -'
+            ].join('\n'));
+        });
+
+        it('should write a grid table with spanning cells', () => {
+            assert.strictEqual(tableToRstGridTable(data), [
+                '+-------------+-----+',
+                '| Name        | Qty |',
+                '+=============+=====+',
+                '| \\*\\*Tea\\*\\* | 3   |',
+                '|             +-----+',
+                '|             | 4   |',
+                '+-------------+-----+'
+            ].join('\n'));
+        });
+
+        it('should widen columns for cells spanning them', () => {
+            const grid = tableToRstGridTable([['a', 'b'], ['a long cell', '']], {
+                merges: [{ row: 1, col: 0, rowSpan: 1, colSpan: 2 }]
+            });
+            assert.strictEqual(grid, [
+                '+---+---------+',
+                '| a | b       |',
+                '+===+=========+',
+                '| a long cell |',
+                '+-------------+'
+            ].join('\n'));
+        });
+    });
+
+    describe('tableToConfluence', () => {
+        it('should write header and body rows, converting inline Markdown', () => {
+            assert.strictEqual(tableToConfluence(data, { inlineMarkdown: 'html' }), [
+                '||Name||Qty||',
+                '|*Tea*|3|',
+                '| |4|'
+            ].join('\n'));
+        });
+    });
+});
@@ -0,0 +1,192 @@
+import * as assert from 'assert';
+import { Table } from '../tableModel';
+
+describe('Table Model', () => {
+    const sample = () => Table.fromData([
+        ['A', 'B', 'C'],
+        ['1', '2', '3'],
+        ['4', '5', '6']
+    ], ['left', 'none', 'right']);
+
+    describe('construction', () => {
+        it('should split header and body rows', () => {
+            const table = sample();
+            assert.deepStrictEqual(table.header, ['A', 'B', 'C']);
+            assert.deepStrictEqual(table.rows, [['1', '2', '3'], ['4', '5', '6']]);
+            assert.strictEqual(table.rowCount, 3);
+            assert.strictEqual(table.columnCount, 3);
+        });
+
+        it('should pad short rows and missing alignments', () => {
+            const table = new Table(['A'], [['1', '2'], []], ['center']);
+            assert.deepStrictEqual(table.toData(), [['A', ''], ['1', '2'], ['', '']]);
+            assert.deepStrictEqual(table.alignments, ['center', 'none']);
+        });
+
+        it('should return copies from toData and clone', () => {
+            const table = sample();
+            table.toData()[0][0] = 'X';
+            const copy = table.clone().setCell(0, 0, 'Y');
+            assert.strictEqual(table.getCell(0, 0), 'A');
+            assert.strictEqual(copy.getCell(0, 0), 'Y');
+        });
+
+        it('should ignore single-cell merges', () => {
+            const table = Table.fromData([['A', 'B']], [], [{ row: 0, col: 0, rowSpan: 1, colSpan: 1 }]);
+            assert.deepStrictEqual(table.merges, []);
+        });
+    });
+
+    describe('rows', () => {
+        it('should insert empty rows', () => {
+            const table = sample().insertRows(1, 2);
+            assert.deepStrictEqual(table.toData(), [['A', 'B', 'C'], ['', '', ''], ['', '', ''], ['1', '2', '3'], ['4', '5', '6']]);
+        });
+
+        it('should insert given rows fitted to the column count', () => {
+            const table = sample().insertRows(3, 1, [['7', '8', '9', '10']]);
+            assert.deepStrictEqual(table.rows[2], ['7', '8', '9']);
+        });
+
+        it('should delete rows', () => {
+            assert.deepStrictEqual(sample().deleteRows(1, 1).toData(), [['A', 'B', 'C'], ['4', '5', '6']]);
+        });
+
+        it('should not delete every row', () => {
+            assert.throws(() => sample().deleteRows(0, 3), RangeError);
+        });
+
+        it('should reject out-of-range rows', () => {
+            assert.throws(() => sample().deleteRows(2, 2), RangeError);
+            assert.throws(() => sample().insertRows(4), RangeError);
+            assert.throws(() => sample().getCell(3, 0), RangeError);
+        });
+
+        it('should move a row', () => {
+            assert.deepStrictEqual(sample().moveRow(2, 1).rows, [['4', '5', '6'], ['1', '2', '3']]);
+        });
+    });
+
+    describe('columns', () => {
+        it('should insert empty columns with no alignment', () => {
+            const table = sample().insertColumns(1, 1);
+            assert.deepStrictEqual(table.header, ['A', '', 'B', 'C']);
+            assert.deepStrictEqual(table.alignments, ['left', 'none', 'none', 'right']);
+        });
+
+        it('should insert given columns', () => {
+            const table = sample().insertColumns(3, 1, [['D', '7', '8']], ['center']);
+            assert.deepStrictEqual(table.toData(), [['A', 'B', 'C', 'D'], ['1', '2', '3', '7'], ['4', '5', '6', '8']]);
+            assert.strictEqual(table.alignments[3], 'center');
+        });
+
+        it('should delete columns with their alignments', () => {
+            const table = sample().deleteColumns(0, 2);
+            assert.deepStrictEqual(table.toData(), [['C'], ['3'], ['6']]);
+            assert.deepStrictEqual(table.alignments, ['right']);
+        });
+
+        it('should not delete every column', () => {
+            assert.throws(() => sample().deleteColumns(0, 3), RangeError);
+        });
+
+        it('should move a column with its alignment', () => {
+            const table = sample().moveColumn(0, 2);
+            assert.deepStrictEqual(table.header, ['B', 'C', 'A']);
+            assert.deepStrictEqual(table.alignments, ['none', 'right', 'left']);
+        });
+
+        it('should set alignments', () => {
+            assert.deepStrictEqual(sample().setAlignment(0, 'center', 2).alignments, ['center', 'center', 'right']);
+        });
+    });
+
+    describe('cells', () => {
+        it('should grow to a size and paste a block', () => {
+            const table = sample().ensureSize(4, 4).setCells(2, 2, [['x', 'y'], ['z', 'w'], ['dropped']]);
+            assert.deepStrictEqual(table.toData(), [
+                ['A', 'B', 'C', ''],
+                ['1', '2', '3', ''],
+                ['4', '5', 'x', 'y'],
+                ['', '', 'z', 'w']
+            ]);
+        });
+    });
+
+    describe('transpose and slice', () => {
+        it('should transpose and reset alignments', () => {
+            const table = sample().transpose();
+            assert.deepStrictEqual(table.toData(), [['A', '1', '4'], ['B', '2', '5'], ['C', '3', '6']]);
+            assert.deepStrictEqual(table.alignments, ['none', 'none', 'none']);
+        });
+
+        it('should slice a region into a new table', () => {
+            const original = sample();
+            const slice = original.slice(1, 3, 1, 3);
+            assert.deepStrictEqual(slice.toData(), [['2', '3'], ['5', '6']]);
+            assert.deepStrictEqual(slice.alignments, ['none', 'right']);
+            assert.strictEqual(original.rowCount, 3);
+        });
+
+        it('should reject an empty slice', () => {
+            assert.throws(() => sample().slice(1, 1), RangeError);
+        });
+    });
+
+    describe('merges', () => {
+        const merged = () => Table.fromData([
+            ['A', 'B', 'C'],
+            ['1', '2', '3'],
+            ['4', '5', '6'],
+            ['7', '8', '9']
+        ], [], [{ row: 1, col: 0, rowSpan: 2, colSpan: 2 }]);
+
+        it('should grow a merge when rows are inserted inside it', () => {
+            assert.deepStrictEqual(merged().insertRows(2).merges, [{ row: 1, col: 0, rowSpan: 3, colSpan: 2 }]);
+        });
+
+        it('should shift a merge when columns are inserted before it', () => {
+            assert.deepStrictEqual(merged().insertColumns(0, 2).merges, [{ row: 1, col: 2, rowSpan: 2, colSpan: 2 }]);
+        });
+
+        it('should shrink a merge when part of it is deleted', () => {
+            assert.deepStrictEqual(merged().deleteRows(2).merges, [{ row: 1, col: 0, rowSpan: 1, colSpan: 2 }]);
+        });
+
+        it('should drop a merge that shrinks to a single cell', () => {
+            assert.deepStrictEqual(merged().deleteColumns(0).deleteRows(1).merges, []);
+        });
+
+        it('should drop a merge split apart by a move', () => {
+            assert.deepStrictEqual(merged().moveColumn(0, 2).merges, []);
+            assert.deepStrictEqual(merged().moveColumn(2, 0).merges, [{ row: 1, col: 1, rowSpan: 2, colSpan: 2 }]);
+        });
+
+        it('should transpose merges', () => {
+            assert.deepStrictEqual(merged().transpose().merges, [{ row: 0, col: 1, rowSpan: 2, colSpan: 2 }]);
+        });
+
+        it('should clip merges to a slice', () => {
+            assert.deepStrictEqual(merged().slice(2, 4).merges, [{ row: 0, col: 0, rowSpan: 1, colSpan: 2 }]);
+        });
+
+        it('should replace overlapping merges', () => {
+            const table = merged().merge({ row: 2, col: 1, rowSpan: 2, colSpan: 2 });
+            assert.deepStrictEqual(table.merges, [{ row: 2, col: 1, rowSpan: 2, colSpan: 2 }]);
+            assert.deepStrictEqual(table.unmerge(3, 2).merges, []);
+        });
+
+        it('should report ^ cells as merges with the cell above', () => {
+            const table = Table.fromData([
+                ['A', 'B'],
+                ['1', '^'],
+                ['^', ' ^ '],
+                ['^', 'x']
+            ]);
+            assert.deepStrictEqual(table.getMergedRegions(), [
+                { row: 1, col: 0, rowSpan: 3, colSpan: 1 },
+                { row: 0, col: 1, rowSpan: 3, colSpan: 1 }
+            ]);
+        });
+    });
+});
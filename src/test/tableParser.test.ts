@@ -1,5 +1,17 @@
 import * as assert from 'assert';
-import { parseMarkdownTables, tableToMarkdown, parseTableRow, isSeparatorRow, isTableRow } from '../tableParser';
+import {
+    parseMarkdownTables,
+    tableToMarkdown,
+    tableToMarkdownPreserveFormat,
+    tableToMarkdownWithStyle,
+    parseTableRow,
+    parseAlignmentRow,
+    isSeparatorRow,
+    isTableRow,
+    removeLinePrefixes,
+    addLinePrefix,
+    serializeTable
+} from '../tableParser';
 
 describe('Table Parser', () => {
     describe('parseMarkdownTables', () => {
@@ -72,6 +84,17 @@ This is a paragraph.
             assert.strictEqual(tables.length, 0);
         });
 
+        it('should parse column alignments from the separator row', () => {
+            const markdown = `
+| Left | Center | Right | None |
+|:-----|:------:|------:|------|
+| a    |   b    |     c | d    |
+`.trim();
+
+            const tables = parseMarkdownTables(markdown);
+            assert.deepStrictEqual(tables[0].alignments, ['left', 'center', 'right', 'none']);
+        });
+
         it('should handle table with varying cell counts', () => {
             const markdown = `
 | A | B | C |
@@ -119,6 +142,219 @@ This is a paragraph.
             // Each line should have consistent column widths
             assert.ok(lines[0].includes('LongHeader'));
         });
+
+        it('should pad full-width text by display width', () => {
+            const markdown = tableToMarkdown([
+                ['名前', 'Note'],
+                ['テスト', 'ok']
+            ]);
+
+            assert.strictEqual(markdown, [
+                '| 名前   | Note |',
+                '| ------ | ---- |',
+                '| テスト | ok   |'
+            ].join('\n'));
+        });
+    });
+
+    describe('tableToMarkdown alignment', () => {
+        it('should write alignment colons into the separator row', () => {
+            const markdown = tableToMarkdown([
+                ['A', 'B', 'C', 'D'],
+                ['1', '2', '3', '4']
+            ], { alignments: ['left', 'center', 'right', 'none'] });
+
+            assert.strictEqual(markdown.split('\n')[1], '| :-- | :-: | --: | --- |');
+        });
+
+        it('should treat missing alignments as none', () => {
+            const markdown = tableToMarkdown([['Header', 'B']], { alignments: ['right'] });
+            assert.strictEqual(markdown.split('\n')[1], '| -----: | --- |');
+        });
+
+        it('should round-trip alignments through parse and serialize', () => {
+            const markdown = tableToMarkdown([['A', 'B'], ['1', '2']], { alignments: ['center', 'right'] });
+            const tables = parseMarkdownTables(markdown);
+            assert.deepStrictEqual(tables[0].alignments, ['center', 'right']);
+        });
+    });
+
+    describe('tableToMarkdownPreserveFormat alignment', () => {
+        const original = `| A | B |
+|:--|--:|
+| 1 | 2 |`;
+        const originalData = [['A', 'B'], ['1', '2']];
+
+        it('should keep the original separator when alignments are unchanged', () => {
+            const result = tableToMarkdownPreserveFormat(originalData, original, originalData, { alignments: ['left', 'right'] });
+            assert.strictEqual(result, original);
+        });
+
+        it('should keep the original separator when no alignments are given', () => {
+            const result = tableToMarkdownPreserveFormat(originalData, original, originalData);
+            assert.strictEqual(result, original);
+        });
+
+        it('should rewrite the separator cells whose alignment changed', () => {
+            const result = tableToMarkdownPreserveFormat(originalData, original, originalData, { alignments: ['center', 'right'] });
+            assert.strictEqual(result.split('\n')[1], '|:-:|--:|');
+        });
+
+        it('should keep alignments when the column count changes', () => {
+            const newData = [['A', 'B', 'C'], ['1', '2', '3']];
+            const result = tableToMarkdownPreserveFormat(newData, original, originalData, { alignments: ['left', 'right', 'center'] });
+            assert.deepStrictEqual(parseMarkdownTables(result)[0].alignments, ['left', 'right', 'center']);
+        });
+    });
+
+    describe('tableToMarkdownPreserveFormat cell-level changes', () => {
+        const aligned = [
+            '| Name  | Value |',
+            '|-------|------:|',
+            '| alpha |     1 |',
+            '| beta  |     2 |'
+        ].join('\n');
+        const alignedData = [['Name', 'Value'], ['alpha', '1'], ['beta', '2']];
+
+        it('should rewrite only the changed cell and keep the column width', () => {
+            const result = tableToMarkdownPreserveFormat([['Name', 'Value'], ['alpha', '1'], ['gamma', '2']], aligned, alignedData);
+            assert.strictEqual(result.split('\n')[3], '| gamma |     2 |');
+        });
+
+        it('should keep right-justified padding', () => {
+            const result = tableToMarkdownPreserveFormat([['Name', 'Value'], ['alpha', '100'], ['beta', '2']], aligned, alignedData);
+            assert.strictEqual(result.split('\n')[2], '| alpha |   100 |');
+        });
+
+        it('should keep the width of full-width text', () => {
+            const original = '| 名前   | 値 |\n| ------ | -- |\n| テスト | 1  |\n| テスト | 2  |';
+            const originalData = [['名前', '値'], ['テスト', '1'], ['テスト', '2']];
+            const result = tableToMarkdownPreserveFormat([['名前', '値'], ['日本', '1'], ['テスト', '2']], original, originalData);
+            assert.strictEqual(result.split('\n')[2], '| 日本   | 1  |');
+        });
+
+        it('should realign a column whose width changed', () => {
+            const result = tableToMarkdownPreserveFormat([['Name', 'Value'], ['alphabet', '1'], ['beta', '2']], aligned, alignedData);
+            assert.strictEqual(result, [
+                '| Name     | Value |',
+                '|----------|------:|',
+                '| alphabet |     1 |',
+                '| beta     |     2 |'
+            ].join('\n'));
+        });
+
+        it('should keep an aligned table aligned when it is transposed', () => {
+            const original = '| City | Population |\n|------|-----------:|\n| NYC  |        8.3 |\n| LA   |        3.9 |';
+            const originalData = [['City', 'Population'], ['NYC', '8.3'], ['LA', '3.9']];
+            const result = tableToMarkdownPreserveFormat(
+                [['City', 'NYC', 'LA'], ['Population', '8.3', '3.9']],
+                original,
+                originalData,
+                { alignments: ['none', 'right', 'right'] }
+            );
+            assert.strictEqual(result, '| City       | NYC |  LA |\n|------------|----:|----:|\n| Population | 8.3 | 3.9 |');
+        });
+
+        it('should keep the lines of moved rows', () => {
+            const original = '|  a | b  |\n|---|---|\n|  1 | 2  |\n| 3 |  4 |';
+            const originalData = [['a', 'b'], ['1', '2'], ['3', '4']];
+            const result = tableToMarkdownPreserveFormat([['a', 'b'], ['3', '4'], ['1', '2']], original, originalData);
+            assert.strictEqual(result, '|  a | b  |\n|---|---|\n| 3 |  4 |\n|  1 | 2  |');
+        });
+
+        it('should keep the spacing of other cells in unaligned rows', () => {
+            const original = '|  a | b  |c|\n|---|---|---|\n|  1 | 2  |3|';
+            const originalData = [['a', 'b', 'c'], ['1', '2', '3']];
+            const result = tableToMarkdownPreserveFormat([['a', 'b', 'c'], ['1', 'X', '3']], original, originalData);
+            assert.strictEqual(result, '|  a | b  |c|\n|---|---|---|\n|  1 | X  |3|');
+        });
+
+        it('should only add the new cell to each line when a column is inserted', () => {
+            const result = tableToMarkdownPreserveFormat(
+                [['Name', 'Type', 'Value'], ['alpha', 'x', '1'], ['beta', '', '2']],
+                aligned,
+                alignedData
+            );
+            assert.strictEqual(result, [
+                '| Name  | Type | Value |',
+                '|-------|------|------:|',
+                '| alpha | x    |     1 |',
+                '| beta  |      |     2 |'
+            ].join('\n'));
+        });
+
+        it('should only remove the deleted cell from each line when a column is deleted', () => {
+            const original = '| A | B | C |\n|---|:-:|---|\n| 1 | 2 | 3 |';
+            const originalData = [['A', 'B', 'C'], ['1', '2', '3']];
+            const result = tableToMarkdownPreserveFormat([['A', 'C'], ['1', '3']], original, originalData, { alignments: ['none', 'none'] });
+            assert.strictEqual(result, '| A | C |\n|---|---|\n| 1 | 3 |');
+        });
+
+        it('should keep the lines of rows around inserted and deleted rows', () => {
+            const original = '| A | B |\n|---|---|\n|  1 | 2 |\n|  3 | 4 |\n|  5 | 6 |';
+            const originalData = [['A', 'B'], ['1', '2'], ['3', '4'], ['5', '6']];
+            const result = tableToMarkdownPreserveFormat([['A', 'B'], ['0', '0'], ['1', '2'], ['5', '6']], original, originalData);
+            assert.strictEqual(result, '| A | B |\n|---|---|\n| 0 | 0 |\n|  1 | 2 |\n|  5 | 6 |');
+        });
+
+        it('should keep pipe-less rows pipe-less when a column is appended', () => {
+            const original = 'a | b\n--- | ---\n1 | 2';
+            const originalData = [['a', 'b'], ['1', '2']];
+            const result = tableToMarkdownPreserveFormat([['a', 'b', 'c'], ['1', '2', '3']], original, originalData);
+            assert.strictEqual(result, 'a | b | c\n--- | --- | ---\n1 | 2 | 3');
+        });
+
+        it('should not let a trailing backslash escape the next pipe', () => {
+            const original = '|a|b|\n|-|-|\n|1|2|';
+            const originalData = [['a', 'b'], ['1', '2']];
+            const edited = [['a', 'b'], ['1\\', '2']];
+            const result = tableToMarkdownPreserveFormat(edited, original, originalData);
+            assert.strictEqual(result.split('\n')[2], '|1\\ |2|');
+            assert.deepStrictEqual(parseMarkdownTables(result)[0].data, edited);
+        });
+
+        it('should leave short rows short', () => {
+            const original = '| A | B | C |\n|---|---|---|\n| 1 |';
+            const originalData = [['A', 'B', 'C'], ['1']];
+            const result = tableToMarkdownPreserveFormat([['A', 'B', 'X'], ['1', '', '']], original, originalData);
+            assert.strictEqual(result, '| A | B | X |\n|---|---|---|\n| 1 |');
+        });
+    });
+
+    describe('output styles', () => {
+        const original = 'a | b\n--- | :-:\nlonger | 2';
+        const originalData = [['a', 'b'], ['longer', '2']];
+
+        it('should realign the whole table in the aligned style', () => {
+            const result = tableToMarkdownWithStyle([['a', 'b'], ['longer', '22']], original, originalData, 'aligned', { alignments: ['none', 'center'] });
+            assert.strictEqual(result, 'a      |  b\n------ | :-:\nlonger | 22');
+        });
+
+        it('should write single-space padding and three-dash separators in the compact style', () => {
+            const aligned = '| Name   | Value |\n|:-------|------:|\n| alpha  |     1 |';
+            const result = tableToMarkdownWithStyle([['Name', 'Value'], ['alpha', '1']], aligned, [['Name', 'Value'], ['alpha', '1']], 'compact', { alignments: ['left', 'right'] });
+            assert.strictEqual(result, '| Name | Value |\n| :-- | --: |\n| alpha | 1 |');
+        });
+
+        it('should keep the line ending in every style', () => {
+            const crlf = '| A |\r\n|---|\r\n| 1 |';
+            for (const style of ['preserve', 'aligned', 'compact'] as const) {
+                const result = tableToMarkdownWithStyle([['A'], ['2']], crlf, [['A'], ['1']], style);
+                assert.strictEqual(result.split('\r\n').length, 3, style);
+            }
+        });
+
+        it('should read a per-table style comment', () => {
+            const markdown = '<!-- table-style: compact -->\n| A |\n|---|\n| 1 |\n\n| B |\n|---|\n| 2 |';
+            const tables = parseMarkdownTables(markdown);
+            assert.strictEqual(tables[0].outputStyle, 'compact');
+            assert.strictEqual(tables[1].outputStyle, undefined);
+        });
+
+        it('should read a style comment inside a blockquote', () => {
+            const tables = parseMarkdownTables('> <!-- table-style: aligned -->\n> | A |\n> |---|');
+            assert.strictEqual(tables[0].outputStyle, 'aligned');
+        });
     });
 
     describe('parseTableRow', () => {
@@ -127,14 +363,24 @@ This is a paragraph.
             assert.deepStrictEqual(result, ['Cell1', 'Cell2']);
         });
 
-        it('should return null for line not starting with |', () => {
+        it('should parse row without leading |', () => {
             const result = parseTableRow('Cell1 | Cell2 |');
-            assert.strictEqual(result, null);
+            assert.deepStrictEqual(result, ['Cell1', 'Cell2']);
         });
 
-        it('should return null for line not ending with |', () => {
+        it('should parse row without trailing |', () => {
             const result = parseTableRow('| Cell1 | Cell2');
-            assert.strictEqual(result, null);
+            assert.deepStrictEqual(result, ['Cell1', 'Cell2']);
+        });
+
+        it('should parse row without outer pipes', () => {
+            const result = parseTableRow('Cell1 | Cell2');
+            assert.deepStrictEqual(result, ['Cell1', 'Cell2']);
+        });
+
+        it('should return null for line without unescaped pipes', () => {
+            assert.strictEqual(parseTableRow('Cell1'), null);
+            assert.strictEqual(parseTableRow('a \\| b'), null);
         });
 
         it('should handle whitespace around cells', () => {
@@ -165,12 +411,20 @@ This is a paragraph.
             assert.strictEqual(isSeparatorRow('| Cell1 | Cell2 |'), false);
         });
 
-        it('should return false for line not starting with |', () => {
-            assert.strictEqual(isSeparatorRow('---|---|'), false);
+        it('should return true for separator without leading |', () => {
+            assert.strictEqual(isSeparatorRow('---|---|'), true);
+        });
+
+        it('should return true for separator without trailing |', () => {
+            assert.strictEqual(isSeparatorRow('|---|---'), true);
+        });
+
+        it('should return true for separator without outer pipes', () => {
+            assert.strictEqual(isSeparatorRow(':--- | ---:'), true);
         });
 
-        it('should return false for line not ending with |', () => {
-            assert.strictEqual(isSeparatorRow('|---|---'), false);
+        it('should return false for a thematic break without pipes', () => {
+            assert.strictEqual(isSeparatorRow('---'), false);
         });
 
         it('should return false for cell without dashes', () => {
@@ -178,17 +432,27 @@ This is a paragraph.
         });
     });
 
+    describe('parseAlignmentRow', () => {
+        it('should parse each alignment form', () => {
+            assert.deepStrictEqual(parseAlignmentRow('| --- | :-- | :-: | --: |'), ['none', 'left', 'center', 'right']);
+        });
+    });
+
     describe('isTableRow', () => {
         it('should return true for valid table row', () => {
             assert.strictEqual(isTableRow('| A | B |'), true);
         });
 
-        it('should return false for line not starting with |', () => {
-            assert.strictEqual(isTableRow('A | B |'), false);
+        it('should return true for line not starting with |', () => {
+            assert.strictEqual(isTableRow('A | B |'), true);
+        });
+
+        it('should return true for line not ending with |', () => {
+            assert.strictEqual(isTableRow('| A | B'), true);
         });
 
-        it('should return false for line not ending with |', () => {
-            assert.strictEqual(isTableRow('| A | B'), false);
+        it('should return false for line without pipes', () => {
+            assert.strictEqual(isTableRow('Just text'), false);
         });
 
         it('should return true for row with leading/trailing whitespace', () => {
@@ -196,6 +460,378 @@ This is a paragraph.
         });
     });
 
+    describe('pipe-less tables', () => {
+        it('should detect a table without outer pipes', () => {
+            const markdown = `Text before
+
+a | b
+--- | ---
+1 | 2
+3 | 4
+
+Text after`;
+            const tables = parseMarkdownTables(markdown);
+            assert.strictEqual(tables.length, 1);
+            assert.strictEqual(tables[0].startLine, 2);
+            assert.strictEqual(tables[0].endLine, 5);
+            assert.deepStrictEqual(tables[0].data, [['a', 'b'], ['1', '2'], ['3', '4']]);
+            assert.deepStrictEqual(tables[0].pipeStyle, { leading: false, trailing: false });
+        });
+
+        it('should detect a half-piped table', () => {
+            const markdown = `| a | b
+| --- | ---
+| 1 | 2`;
+            const tables = parseMarkdownTables(markdown);
+            assert.strictEqual(tables.length, 1);
+            assert.deepStrictEqual(tables[0].data, [['a', 'b'], ['1', '2']]);
+            assert.deepStrictEqual(tables[0].pipeStyle, { leading: true, trailing: false });
+        });
+
+        it('should require the separator to match the header cell count', () => {
+            const markdown = `a | b | c
+--- | ---
+1 | 2 | 3`;
+            assert.strictEqual(parseMarkdownTables(markdown).length, 0);
+        });
+
+        it('should not treat a setext heading as a table', () => {
+            const markdown = `Heading
+---
+a | b`;
+            assert.strictEqual(parseMarkdownTables(markdown).length, 0);
+        });
+
+        it('should write a pipe-less table without outer pipes', () => {
+            const markdown = tableToMarkdown([['a', 'b'], ['1', '2']], { pipeStyle: { leading: false, trailing: false } });
+            assert.strictEqual(markdown, 'a   | b\n--- | ---\n1   | 2');
+        });
+
+        it('should keep outer pipes when an edge cell is empty', () => {
+            const markdown = tableToMarkdown([['a', 'b'], ['', '2']], { pipeStyle: { leading: false, trailing: false } });
+            assert.ok(markdown.split('\n').every(line => line.startsWith('| ')));
+        });
+
+        it('should keep the original pipe style when saving a changed row', () => {
+            const original = `a | b
+--- | ---
+1 | 2`;
+            const originalData = [['a', 'b'], ['1', '2']];
+            const result = tableToMarkdownPreserveFormat([['a', 'b'], ['1', 'X']], original, originalData);
+            assert.strictEqual(result, 'a | b\n--- | ---\n1 | X');
+        });
+
+        it('should keep the original pipe style when the column count changes', () => {
+            const original = `| a | b
+| --- | ---
+| 1 | 2`;
+            const originalData = [['a', 'b'], ['1', '2']];
+            const result = tableToMarkdownPreserveFormat([['a', 'b', 'c'], ['1', '2', '3']], original, originalData);
+            assert.ok(result.split('\n').every(line => line.startsWith('| ') && !line.endsWith('|')));
+        });
+    });
+
+    describe('pipes in code spans and escapes', () => {
+        it('should not split on pipes inside code spans', () => {
+            assert.deepStrictEqual(parseTableRow('| `a || b` | c |'), ['`a || b`', 'c']);
+        });
+
+        it('should escape a lone backtick that would pair with a code span in the next cell', () => {
+            const markdown = tableToMarkdown([['A', 'B'], ['`', '`c|d`']]);
+            assert.deepStrictEqual(parseTableRow(markdown.split('\n')[2]), ['\\`', '`c|d`']);
+        });
+
+        it('should keep shell pipelines and regexes in code spans intact', () => {
+            assert.deepStrictEqual(
+                parseTableRow('| `ls -la | grep foo` | `^(a|b)$` |'),
+                ['`ls -la | grep foo`', '`^(a|b)$`']
+            );
+        });
+
+        it('should keep escaped pipes inside code spans as written', () => {
+            assert.deepStrictEqual(parseTableRow('| `a \\| b` | c |'), ['`a \\| b`', 'c']);
+        });
+
+        it('should unescape escaped pipes outside code spans', () => {
+            assert.deepStrictEqual(parseTableRow('| a \\| b | c |'), ['a | b', 'c']);
+        });
+
+        it('should treat unmatched backticks as literal', () => {
+            assert.deepStrictEqual(parseTableRow('| `a | b |'), ['`a', 'b']);
+        });
+
+        it('should only close a code span with a backtick run of the same length', () => {
+            assert.deepStrictEqual(parseTableRow('| ``a ` | b`` | c |'), ['``a ` | b``', 'c']);
+        });
+
+        it('should not open a code span with an escaped backtick', () => {
+            assert.deepStrictEqual(parseTableRow('| \\`a | b` |'), ['\\`a', 'b`']);
+        });
+
+        it('should not escape pipes inside code spans when writing', () => {
+            const markdown = tableToMarkdown([['Command', 'Note'], ['`ps aux | grep node`', 'a | b']]);
+            const lines = markdown.split('\n');
+            assert.ok(lines[2].includes('`ps aux | grep node`'));
+            assert.ok(lines[2].includes('a \\| b'));
+        });
+
+        it('should round-trip tricky cells through serialize and parse', () => {
+            const data = [
+                ['Pattern', 'Escaped', 'Mixed'],
+                ['`^(a|b)$`', '`x \\| y`', 'a | `b | c` | d'],
+                ['`a || b`', 'C:\\path', 'don`t'],
+                ['``code ` here``', '\\`not code', 'end\\']
+            ];
+            const tables = parseMarkdownTables(tableToMarkdown(data));
+            assert.deepStrictEqual(tables[0].data, data);
+        });
+
+        it('should escape unmatched backticks that would join cells', () => {
+            const data = [['A', 'B'], ['`open', 'close`']];
+            const markdown = tableToMarkdown(data);
+            assert.strictEqual(parseMarkdownTables(markdown)[0].data[1].length, 2);
+        });
+
+        it('should save unchanged code rows byte-for-byte', () => {
+            const original = `| Command | Description |
+|---------|-------------|
+| \`cat file \\| wc -l\` | count |
+| \`a || b\` | or |`;
+            const originalData = parseMarkdownTables(original)[0].data;
+            const edited = originalData.map(row => [...row]);
+            edited[2][1] = 'logical or';
+            const result = tableToMarkdownPreserveFormat(edited, original, originalData);
+            const lines = result.split('\n');
+            assert.strictEqual(lines[2], '| `cat file \\| wc -l` | count |');
+            assert.strictEqual(lines[3], '| `a || b` | logical or |');
+        });
+    });
+
+    describe('tables in non-text blocks', () => {
+        const table = `| A | B |
+|---|---|
+| 1 | 2 |`;
+
+        it('should ignore tables inside backtick fences', () => {
+            const markdown = '```markdown\n' + table + '\n```\n\n' + table;
+            const tables = parseMarkdownTables(markdown);
+            assert.strictEqual(tables.length, 1);
+            assert.strictEqual(tables[0].startLine, 6);
+        });
+
+        it('should ignore tables inside tilde fences', () => {
+            const markdown = '~~~\n' + table + '\n~~~';
+            assert.strictEqual(parseMarkdownTables(markdown).length, 0);
+        });
+
+        it('should only close a fence with a fence of the same kind and length', () => {
+            const markdown = '````\n```\n' + table + '\n~~~~\n````\n\n' + table;
+            const tables = parseMarkdownTables(markdown);
+            assert.strictEqual(tables.length, 1);
+            assert.strictEqual(tables[0].startLine, 8);
+        });
+
+        it('should treat an unclosed fence as running to the end of the document', () => {
+            const markdown = '```\n' + table;
+            assert.strictEqual(parseMarkdownTables(markdown).length, 0);
+        });
+
+        it('should ignore tables in indented code blocks', () => {
+            const markdown = 'Example:\n\n' + table.split('\n').map(line => '    ' + line).join('\n');
+            assert.strictEqual(parseMarkdownTables(markdown).length, 0);
+        });
+
+        it('should ignore tables in tab-indented code blocks', () => {
+            const markdown = table.split('\n').map(line => '\t' + line).join('\n');
+            assert.strictEqual(parseMarkdownTables(markdown).length, 0);
+        });
+
+        it('should ignore tables inside <pre> blocks', () => {
+            const markdown = '<pre>\n' + table + '\n</pre>\n\n' + table;
+            const tables = parseMarkdownTables(markdown);
+            assert.strictEqual(tables.length, 1);
+            assert.strictEqual(tables[0].startLine, 6);
+        });
+
+        it('should ignore tables inside HTML comments', () => {
+            const markdown = '<!--\n' + table + '\n-->';
+            assert.strictEqual(parseMarkdownTables(markdown).length, 0);
+        });
+
+        it('should ignore tables inside block-level HTML until a blank line', () => {
+            const markdown = '<div>\n' + table + '\n</div>\n\n' + table;
+            const tables = parseMarkdownTables(markdown);
+            assert.strictEqual(tables.length, 1);
+            assert.strictEqual(tables[0].startLine, 6);
+        });
+
+        it('should ignore tables in YAML front matter', () => {
+            const markdown = '---\ntitle: x\n' + table + '\n---\n\n' + table;
+            const tables = parseMarkdownTables(markdown);
+            assert.strictEqual(tables.length, 1);
+            assert.strictEqual(tables[0].startLine, 7);
+        });
+
+        it('should not treat a thematic break later in the document as front matter', () => {
+            const markdown = 'Intro\n\n---\n\n' + table;
+            assert.strictEqual(parseMarkdownTables(markdown).length, 1);
+        });
+
+        it('should end a table at the start of a code fence', () => {
+            const markdown = table + '\n```\n| 3 | 4 |\n```';
+            const tables = parseMarkdownTables(markdown);
+            assert.strictEqual(tables.length, 1);
+            assert.strictEqual(tables[0].endLine, 2);
+        });
+    });
+
+    describe('tables in blockquotes and list items', () => {
+        it('should detect a table inside a blockquote', () => {
+            const markdown = `> | A | B |
+> |---|---|
+> | 1 | 2 |`;
+            const tables = parseMarkdownTables(markdown);
+            assert.strictEqual(tables.length, 1);
+            assert.strictEqual(tables[0].prefix, '> ');
+            assert.deepStrictEqual(tables[0].data, [['A', 'B'], ['1', '2']]);
+        });
+
+        it('should detect a table inside a callout', () => {
+            const markdown = `> [!NOTE]
+> | A | B |
+> | --- | --- |
+> | 1 | 2 |`;
+            const tables = parseMarkdownTables(markdown);
+            assert.strictEqual(tables.length, 1);
+            assert.strictEqual(tables[0].startLine, 1);
+            assert.strictEqual(tables[0].endLine, 3);
+        });
+
+        it('should detect a table in a nested blockquote', () => {
+            const markdown = `> > A | B
+> > --- | ---
+> > 1 | 2`;
+            const tables = parseMarkdownTables(markdown);
+            assert.strictEqual(tables.length, 1);
+            assert.strictEqual(tables[0].prefix, '> > ');
+        });
+
+        it('should end a table when the blockquote ends', () => {
+            const markdown = `> | A | B |
+> |---|---|
+> | 1 | 2 |
+| 3 | 4 |`;
+            const tables = parseMarkdownTables(markdown);
+            assert.strictEqual(tables[0].endLine, 2);
+        });
+
+        it('should detect a table indented under a list item', () => {
+            const markdown = `- Item
+
+  | A | B |
+  |---|---|
+  | 1 | 2 |`;
+            const tables = parseMarkdownTables(markdown);
+            assert.strictEqual(tables.length, 1);
+            assert.strictEqual(tables[0].prefix, '  ');
+            assert.deepStrictEqual(tables[0].data, [['A', 'B'], ['1', '2']]);
+        });
+
+        it('should not mistake list item indentation for indented code', () => {
+            const markdown = `1. Step
+
+    | A | B |
+    |---|---|
+    | 1 | 2 |`;
+            assert.strictEqual(parseMarkdownTables(markdown).length, 1);
+        });
+
+        it('should ignore tables in code fences inside blockquotes', () => {
+            const markdown = `> \`\`\`
+> | A | B |
+> |---|---|
+> \`\`\``;
+            assert.strictEqual(parseMarkdownTables(markdown).length, 0);
+        });
+
+        it('should re-apply the prefix to every written line', () => {
+            const markdown = `> | A | B |
+> |---|---|
+> | 1 | 2 |`;
+            const table = parseMarkdownTables(markdown)[0];
+            const edited = [['A', 'B'], ['1', 'X'], ['3', '4']];
+            const result = addLinePrefix(
+                tableToMarkdownPreserveFormat(edited, removeLinePrefixes(table.rawText), table.data),
+                table.prefix
+            );
+            assert.strictEqual(result, `> | A | B |
+> |---|---|
+> | 1 | X |
+> | 3 | 4 |`);
+        });
+
+        it('should leave unchanged prefixed tables byte-for-byte', () => {
+            const markdown = `  | A | B |
+  |---|---|
+  | 1 | 2 |`;
+            const table = parseMarkdownTables(markdown)[0];
+            const result = addLinePrefix(
+                tableToMarkdownPreserveFormat(table.data, removeLinePrefixes(table.rawText), table.data),
+                table.prefix
+            );
+            assert.strictEqual(result, markdown);
+        });
+    });
+
+    describe('CRLF line endings and trailing whitespace', () => {
+        const crlf = (...lines: string[]) => lines.join('\r\n');
+
+        it('should not leave carriage returns in cells', () => {
+            const tables = parseMarkdownTables(crlf('| A | B |', '|---|---|', '| 1 | 2 |', ''));
+            assert.strictEqual(tables.length, 1);
+            assert.deepStrictEqual(tables[0].data, [['A', 'B'], ['1', '2']]);
+            assert.strictEqual(tables[0].eol, '\r\n');
+            assert.strictEqual(tables[0].endLine, 2);
+        });
+
+        it('should keep CRLF when saving an edited table', () => {
+            const markdown = crlf('| A | B |', '|---|---|', '| 1 | 2 |');
+            const table = parseMarkdownTables(markdown)[0];
+            assert.strictEqual(table.rawText, markdown);
+
+            const result = tableToMarkdownPreserveFormat([['A', 'B'], ['1', 'X'], ['3', '4']], table.rawText, table.data);
+            assert.strictEqual(result, crlf('| A | B |', '|---|---|', '| 1 | X |', '| 3 | 4 |'));
+        });
+
+        it('should keep CRLF when the column count changes', () => {
+            const table = parseMarkdownTables(crlf('| A | B |', '|---|---|', '| 1 | 2 |'))[0];
+            const result = tableToMarkdownPreserveFormat([['A', 'B', 'C'], ['1', '2', '3']], table.rawText, table.data);
+            assert.strictEqual(result.split('\r\n').length, 3);
+            assert.ok(!/[^\r]\n/.test(result));
+        });
+
+        it('should write the requested line ending', () => {
+            assert.strictEqual(tableToMarkdown([['A'], ['1']], { eol: '\r\n' }), crlf('| A   |', '| --- |', '| 1   |'));
+        });
+
+        it('should keep CRLF through blockquote prefixes', () => {
+            const markdown = crlf('> | A | B |', '> |---|---|', '> | 1 | 2 |');
+            const table = parseMarkdownTables(markdown)[0];
+            const result = addLinePrefix(
+                tableToMarkdownPreserveFormat([['A', 'B'], ['1', 'X']], removeLinePrefixes(table.rawText), table.data),
+                table.prefix
+            );
+            assert.strictEqual(result, crlf('> | A | B |', '> |---|---|', '> | 1 | X |'));
+        });
+
+        it('should keep trailing whitespace of edited rows', () => {
+            const markdown = '| A | B |  \n|---|---|\n| 1 | 2 | \n| 3 | 4 |';
+            const table = parseMarkdownTables(markdown)[0];
+            const result = tableToMarkdownPreserveFormat([['A', 'B'], ['1', 'X'], ['3', '4']], table.rawText, table.data);
+            assert.strictEqual(result, '| A | B |  \n|---|---|\n| 1 | X | \n| 3 | 4 |');
+        });
+    });
+
     describe('parseMarkdownTables edge cases', () => {
         it('should skip lines that look like table rows but have no separator', () => {
             const markdown = `| A | B |
@@ -235,4 +871,148 @@ Some text after`;
             assert.strictEqual(tables[0].rawText, markdown);
         });
     });
+
+    describe('MultiMarkdown tables', () => {
+        const mmd = { multiMarkdown: true };
+
+        it('should read spans, header rows and a caption above the table', () => {
+            const markdown = `[Prototype table][proto]
+|             |    Grouping    ||
+| First       | Second | Third |
+| ----------- | :----: | ----: |
+| Content     | *Long Cell*   ||`;
+            const tables = parseMarkdownTables(markdown, mmd);
+            assert.strictEqual(tables.length, 1);
+            assert.strictEqual(tables[0].startLine, 0);
+            assert.strictEqual(tables[0].endLine, 4);
+            assert.strictEqual(tables[0].headerRowCount, 2);
+            assert.deepStrictEqual(tables[0].data, [
+                ['', 'Grouping', ''],
+                ['First', 'Second', 'Third'],
+                ['Content', '*Long Cell*', '']
+            ]);
+            assert.deepStrictEqual(tables[0].alignments, ['none', 'center', 'right']);
+            assert.deepStrictEqual(tables[0].merges, [
+                { row: 0, col: 1, rowSpan: 1, colSpan: 2 },
+                { row: 2, col: 1, rowSpan: 1, colSpan: 2 }
+            ]);
+            assert.deepStrictEqual(tables[0].caption, { text: 'Prototype table', label: 'proto', position: 'above' });
+        });
+
+        it('should read a caption below the table', () => {
+            const markdown = `| a | b |
+|---|---|
+| 1 | 2 |
+[Below]`;
+            const tables = parseMarkdownTables(markdown, mmd);
+            assert.strictEqual(tables[0].endLine, 3);
+            assert.deepStrictEqual(tables[0].caption, { text: 'Below', position: 'below' });
+        });
+
+        it('should not treat a caption line as a table caption when the option is off', () => {
+            const markdown = `[Caption]
+| a | b |
+|---|---|
+| 1 ||`;
+            const tables = parseMarkdownTables(markdown);
+            assert.strictEqual(tables[0].startLine, 1);
+            assert.strictEqual(tables[0].caption, undefined);
+            assert.strictEqual(tables[0].merges, undefined);
+            assert.deepStrictEqual(tables[0].data, [['a', 'b'], ['1', '']]);
+        });
+
+        it('should return the original text when nothing changed', () => {
+            const markdown = `[Caption]
+| a | b |
+ -- | --
+| 1 ||`;
+            const table = parseMarkdownTables(markdown, mmd)[0];
+            const output = serializeTable(table.data, table, 'preserve', {
+                alignments: table.alignments,
+                eol: '\n',
+                merges: table.merges
+            });
+            assert.strictEqual(output, markdown);
+        });
+
+        it('should keep unchanged rows and write spans with consecutive pipes', () => {
+            const markdown = `|a|b|c|
+|-|-|-|
+|x||y|
+|1|2|3|`;
+            const table = parseMarkdownTables(markdown, mmd)[0];
+            const data = table.data.map(row => [...row]);
+            data[2][0] = 'one';
+            const output = serializeTable(data, table, 'preserve', {
+                alignments: table.alignments,
+                eol: '\n',
+                merges: [...table.merges!, { row: 2, col: 1, rowSpan: 1, colSpan: 2 }]
+            });
+            assert.strictEqual(output, `|a|b|c|
+|-|-|-|
+|x||y|
+| one | 2 ||`);
+        });
+
+        it('should align spanning cells over the columns they cover', () => {
+            const table = parseMarkdownTables(`| a | b |
+|---|---|
+| long value ||`, mmd)[0];
+            const output = serializeTable(table.data, table, 'aligned', {
+                alignments: table.alignments,
+                eol: '\n',
+                merges: table.merges
+            });
+            assert.strictEqual(output, `| a   | b     |
+| --- | ----- |
+| long value ||`);
+        });
+
+        it('should write an edited caption with its label', () => {
+            const markdown = `| a |
+|---|
+| 1 |
+[Old][label]`;
+            const table = parseMarkdownTables(markdown, mmd)[0];
+            const output = serializeTable(table.data, table, 'preserve', {
+                alignments: table.alignments,
+                eol: '\n',
+                caption: 'New'
+            });
+            assert.strictEqual(output, `| a |
+|---|
+| 1 |
+[New][label]`);
+        });
+
+        it('should add and remove a caption', () => {
+            const table = parseMarkdownTables(`| a |
+|---|
+| 1 |`, mmd)[0];
+            const options = { alignments: table.alignments, eol: '\n' as const };
+            assert.strictEqual(serializeTable(table.data, table, 'preserve', { ...options, caption: 'Added' }), `[Added]
+| a |
+|---|
+| 1 |`);
+            const captioned = parseMarkdownTables(`[Added]
+| a |
+|---|
+| 1 |`, mmd)[0];
+            assert.strictEqual(serializeTable(captioned.data, captioned, 'preserve', { ...options, caption: '' }), `| a |
+|---|
+| 1 |`);
+        });
+
+        it('should write several header rows above the separator', () => {
+            const markdown = tableToMarkdown([['', 'Group', ''], ['a', 'b', 'c'], ['1', '2', '3']], {
+                headerRowCount: 2,
+                merges: [{ row: 0, col: 1, rowSpan: 1, colSpan: 2 }],
+                compact: true
+            });
+            assert.strictEqual(markdown, `|  | Group ||
+| a | b | c |
+| --- | --- | --- |
+| 1 | 2 | 3 |`);
+        });
+    });
 });
@@ -0,0 +1,46 @@
+import * as assert from 'assert';
+import { parseMarkdownTables, tableToMarkdown } from '../tableParser';
+import { createEmptyTable, parseTableSize, TABLE_TEMPLATES } from '../tableTemplates';
+
+describe('Table Templates', () => {
+    describe('createEmptyTable', () => {
+        it('should create numbered headers and empty body rows', () => {
+            assert.deepStrictEqual(createEmptyTable(2, 3), [
+                ['Column 1', 'Column 2', 'Column 3'],
+                ['', '', ''],
+                ['', '', '']
+            ]);
+        });
+
+        it('should be written as a table that parses back to the same size', () => {
+            const [table] = parseMarkdownTables(tableToMarkdown(createEmptyTable(3, 4)));
+            assert.strictEqual(table.data.length, 4);
+            assert.ok(table.data.every(row => row.length === 4));
+        });
+    });
+
+    describe('parseTableSize', () => {
+        it('should read rows and columns', () => {
+            assert.deepStrictEqual(parseTableSize('3x4'), { rows: 3, columns: 4 });
+            assert.deepStrictEqual(parseTableSize(' 2 × 5 '), { rows: 2, columns: 5 });
+            assert.deepStrictEqual(parseTableSize('10*2'), { rows: 10, columns: 2 });
+        });
+
+        it('should reject invalid sizes', () => {
+            assert.strictEqual(parseTableSize('3'), undefined);
+            assert.strictEqual(parseTableSize('0x4'), undefined);
+            assert.strictEqual(parseTableSize('3x1000'), undefined);
+            assert.strictEqual(parseTableSize('ax b'), undefined);
+        });
+    });
+
+    describe('TABLE_TEMPLATES', () => {
+        it('should be written as tables that parse back to the template', () => {
+            for (const template of TABLE_TEMPLATES) {
+                const [table] = parseMarkdownTables(tableToMarkdown(template.data, { alignments: template.alignments }));
+                assert.deepStrictEqual(table.data, template.data, template.label);
+                assert.deepStrictEqual(table.alignments, template.alignments ?? template.data[0].map(() => 'none'), template.label);
+            }
+        });
+    });
+});
@@ -0,0 +1,6 @@
+/**
+ * Entry point of the script bundle loaded by the table editor webview.
+ * Everything exported here is available in the webview as the global `VisualTableCanvas`.
+ */
+export { Table, MERGE_ABOVE_MARKER } from './tableModel';
+export { splitDelimitedText } from './delimitedText';
@@ -4,7 +4,7 @@
 const path = require('path');
 
 /**@type {import('webpack').Configuration}*/
-const config = {
+const extensionConfig = {
     target: 'node',
     mode: 'none',
     entry: './src/extension.ts',
@@ -35,4 +35,26 @@ const config = {
     }
 };
 
-module.exports = config;
+/**
+ * Shared code for the table editor webview, loaded as a plain script
+ * that defines the global `VisualTableCanvas`.
+ * @type {import('webpack').Configuration}
+ */
+const webviewConfig = {
+    target: 'web',
+    mode: 'none',
+    entry: './src/webviewLibrary.ts',
+    output: {
+        path: path.resolve(__dirname, 'dist'),
+        filename: 'webviewLibrary.js',
+        library: {
+            name: 'VisualTableCanvas',
+            type: 'var'
+        }
+    },
+    devtool: 'nosources-source-map',
+    resolve: extensionConfig.resolve,
+    module: extensionConfig.module
+};
+
+module.exports = [extensionConfig, webviewConfig];